@@ -0,0 +1,181 @@
+import { Server } from '@modelcontextprotocol/sdk/server/index.js';
+import { AIAnalysisFunction, AnalysisContext } from './pattern-analyzer';
+import { HeuristicDetector } from './heuristic-detectors';
+
+export interface AIProviderConfig {
+  type: 'heuristic' | 'openai' | 'sampling';
+  baseUrl: string; // e.g. https://api.openai.com/v1 or http://localhost:11434/v1 for Ollama
+  model: string;
+  apiKey?: string;
+  timeoutMs: number;
+  maxTokens: number;
+  temperature: number;
+  samplingBudgetPerCycle: number; // max sampling requests per analysis cycle
+}
+
+export interface AIProvider {
+  analyze: AIAnalysisFunction;
+  startCycle?(): void; // called by the monitor at the start of each analysis cycle
+}
+
+interface ChatCompletionResponse {
+  choices?: { message?: { content?: string } }[];
+  usage?: { prompt_tokens?: number; completion_tokens?: number; total_tokens?: number };
+}
+
+const SYSTEM_MESSAGE = 'You are an analysis component of a Twitch chat moderation bot. Follow the instructions in the user message and respond with valid JSON only, without markdown or commentary.';
+
+/**
+ * Provider for any OpenAI-compatible chat-completions endpoint (OpenAI, Ollama, llama.cpp, vLLM, LM Studio)
+ */
+export class OpenAICompatibleProvider {
+  private config: AIProviderConfig;
+
+  constructor(config: AIProviderConfig) {
+    this.config = config;
+  }
+
+  /**
+   * AIAnalysisFunction implementation that sends the prompt to the chat-completions endpoint
+   */
+  analyze: AIAnalysisFunction = async (prompt: string, context?: AnalysisContext): Promise<string> => {
+    const url = `${this.config.baseUrl.replace(/\/+$/, '')}/chat/completions`;
+    const headers: Record<string, string> = { 'Content-Type': 'application/json' };
+    if (this.config.apiKey) {
+      headers['Authorization'] = `Bearer ${this.config.apiKey}`;
+    }
+
+    const controller = new AbortController();
+    const timer = setTimeout(() => controller.abort(), this.config.timeoutMs);
+
+    try {
+      const response = await fetch(url, {
+        method: 'POST',
+        headers,
+        body: JSON.stringify({
+          model: this.config.model,
+          messages: [
+            { role: 'system', content: SYSTEM_MESSAGE },
+            { role: 'user', content: prompt }
+          ],
+          max_tokens: this.config.maxTokens,
+          temperature: this.config.temperature,
+          stream: false
+        }),
+        signal: controller.signal
+      });
+
+      if (!response.ok) {
+        const errorText = await response.text();
+        throw new Error(`AI provider returned HTTP ${response.status}: ${errorText.substring(0, 200)}`);
+      }
+
+      const data = await response.json() as ChatCompletionResponse;
+      const content = data.choices?.[0]?.message?.content;
+      if (typeof content !== 'string') {
+        throw new Error('AI provider response did not contain a message');
+      }
+
+      if (data.usage && context?.reportUsage) {
+        context.reportUsage({
+          promptTokens: data.usage.prompt_tokens || 0,
+          completionTokens: data.usage.completion_tokens || 0
+        });
+      }
+
+      return content;
+    } catch (error) {
+      if ((error as Error).name === 'AbortError') {
+        throw new Error(`AI provider timed out after ${this.config.timeoutMs}ms`);
+      }
+      throw error;
+    } finally {
+      clearTimeout(timer);
+    }
+  };
+}
+
+/**
+ * Provider that asks the connected MCP client's model through sampling/createMessage
+ */
+export class SamplingProvider {
+  private config: AIProviderConfig;
+  private server: Server;
+  private fallback: AIAnalysisFunction;
+  private requestsThisCycle = 0;
+
+  constructor(config: AIProviderConfig, server: Server, fallback: AIAnalysisFunction) {
+    this.config = config;
+    this.server = server;
+    this.fallback = fallback;
+  }
+
+  /**
+   * Start a new analysis cycle with the full sampling budget
+   */
+  startCycle(): void {
+    this.requestsThisCycle = 0;
+  }
+
+  /**
+   * Whether the connected client declared the sampling capability
+   */
+  isSupported(): boolean {
+    return !!this.server.getClientCapabilities()?.sampling;
+  }
+
+  /**
+   * AIAnalysisFunction implementation that samples from the client, falling back to local heuristics
+   */
+  analyze: AIAnalysisFunction = async (prompt: string, context?: AnalysisContext): Promise<string> => {
+    if (!this.isSupported() || !this.takeBudget()) {
+      return this.fallback(prompt, context);
+    }
+
+    const result = await this.server.createMessage({
+      messages: [{ role: 'user', content: { type: 'text', text: prompt } }],
+      systemPrompt: SYSTEM_MESSAGE,
+      includeContext: 'none',
+      maxTokens: this.config.maxTokens,
+      temperature: this.config.temperature,
+      metadata: { source: 'twitch-mcp-autonomous', promptType: context?.promptType }
+    }, { timeout: this.config.timeoutMs });
+
+    if (result.content.type !== 'text') {
+      throw new Error(`Sampling returned ${result.content.type} content instead of text`);
+    }
+
+    return result.content.text;
+  };
+
+  /**
+   * Reserve one request from the current cycle's budget
+   */
+  private takeBudget(): boolean {
+    if (this.requestsThisCycle >= this.config.samplingBudgetPerCycle) {
+      return false;
+    }
+
+    this.requestsThisCycle++;
+    return true;
+  }
+}
+
+/**
+ * Create the configured provider
+ */
+export function createAIProvider(
+  config: AIProviderConfig,
+  heuristicDetector: HeuristicDetector,
+  server: Server
+): AIProvider {
+  switch (config.type) {
+    case 'openai':
+      return new OpenAICompatibleProvider(config);
+    case 'sampling':
+      return new SamplingProvider(config, server, heuristicDetector.analyze);
+    case 'heuristic':
+    default:
+      return { analyze: heuristicDetector.analyze };
+  }
+}
@@ -0,0 +1,91 @@
+import { ActionDecision } from './autonomous-types';
+import { RiskLevel } from './decision-engine';
+
+export interface PendingAction {
+  id: string;
+  decision: ActionDecision;
+  riskLevel: RiskLevel;
+  holdReason: string; // why the action wasn't executed right away
+  heldAt: Date;
+  expiresAt: Date;
+}
+
+/**
+ * Autonomous actions waiting for a human to approve or reject them
+ */
+export class ApprovalQueue {
+  private pending: Map<string, PendingAction> = new Map();
+  private expiryMinutes: number;
+  private nextId = 1;
+
+  constructor(expiryMinutes: number) {
+    this.expiryMinutes = expiryMinutes;
+  }
+
+  /**
+   * Hold a decision until it's approved, rejected or expires
+   */
+  hold(decision: ActionDecision, riskLevel: RiskLevel, holdReason: string): PendingAction {
+    const heldAt = new Date();
+    const action: PendingAction = {
+      id: String(this.nextId++),
+      decision,
+      riskLevel,
+      holdReason,
+      heldAt,
+      expiresAt: new Date(heldAt.getTime() + this.expiryMinutes * 60 * 1000)
+    };
+
+    this.pending.set(action.id, action);
+    return action;
+  }
+
+  /**
+   * Remove and return a pending action, if it exists and hasn't expired
+   */
+  take(id: string): PendingAction | undefined {
+    this.expireStale();
+
+    const action = this.pending.get(id);
+    if (action) {
+      this.pending.delete(id);
+    }
+    return action;
+  }
+
+  /**
+   * Pending actions, oldest first
+   */
+  list(): PendingAction[] {
+    this.expireStale();
+    return Array.from(this.pending.values());
+  }
+
+  /**
+   * Drop actions whose approval window has passed and return them
+   */
+  expireStale(): PendingAction[] {
+    const now = Date.now();
+    const expired: PendingAction[] = [];
+
+    for (const [id, action] of this.pending) {
+      if (action.expiresAt.getTime() <= now) {
+        expired.push(action);
+        this.pending.delete(id);
+      }
+    }
+
+    for (const action of expired) {
+      console.log(`Pending action ${action.id} (${action.decision.action}) expired without approval`);
+    }
+
+    return expired;
+  }
+
+  /**
+   * Update how long new actions wait for approval
+   */
+  setExpiry(expiryMinutes: number): void {
+    this.expiryMinutes = expiryMinutes;
+  }
+}
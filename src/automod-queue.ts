@@ -0,0 +1,116 @@
+import { AutoModHoldEvent, AutoModUpdateEvent, StreamEventUser } from './stream-events';
+
+export type AutoModAction = 'ALLOW' | 'DENY';
+
+export interface HeldMessage {
+  messageId: string;
+  user: StreamEventUser;
+  text: string;
+  reason: 'automod' | 'blocked_term';
+  category?: string;
+  level?: number;
+  blockedTerms: string[];
+  heldAt: Date;
+}
+
+export interface AutoModQueueStats {
+  pending: number;
+  approved: number;
+  denied: number;
+  expired: number;
+}
+
+// Local detector findings for a held message (toxicity, spam, blocked terms); empty when nothing is found
+export interface HeldMessageCheck {
+  (message: HeldMessage): string[];
+}
+
+// Helix POST /moderation/automod/message, supplied by the server
+interface AutoModResolver {
+  (messageId: string, action: AutoModAction): Promise<void>;
+}
+
+// Twitch sends an update when a held message is resolved or expires; this only covers missed updates
+const HELD_MESSAGE_TTL_MS = 30 * 60 * 1000;
+
+/**
+ * Messages AutoMod is holding for review, fed by EventSub. Messages resolved elsewhere
+ * (by another moderator, or by expiring) leave the queue when Twitch reports it.
+ */
+export class AutoModQueue {
+  private resolver: AutoModResolver;
+  private held: Map<string, HeldMessage> = new Map();
+  private stats = { approved: 0, denied: 0, expired: 0 };
+
+  constructor(resolver: AutoModResolver) {
+    this.resolver = resolver;
+  }
+
+  hold(event: AutoModHoldEvent): HeldMessage {
+    const message: HeldMessage = {
+      messageId: event.messageId,
+      user: event.user,
+      text: event.text,
+      reason: event.reason,
+      ...(event.category ? { category: event.category } : {}),
+      ...(event.level !== undefined ? { level: event.level } : {}),
+      blockedTerms: event.blockedTerms,
+      heldAt: event.heldAt
+    };
+    this.held.set(message.messageId, message);
+    return message;
+  }
+
+  /**
+   * Drop a message Twitch reports as resolved; returns it if it was still queued
+   */
+  update(event: AutoModUpdateEvent): HeldMessage | null {
+    const message = this.held.get(event.messageId);
+    if (!message) {
+      return null; // resolved through this queue, or held before we connected
+    }
+
+    this.held.delete(event.messageId);
+    this.stats[event.status]++;
+    return message;
+  }
+
+  /**
+   * Held messages, oldest first
+   */
+  list(): HeldMessage[] {
+    this.dropStale();
+    return Array.from(this.held.values()).sort((a, b) => a.heldAt.getTime() - b.heldAt.getTime());
+  }
+
+  get(messageId: string): HeldMessage | undefined {
+    return this.held.get(messageId);
+  }
+
+  /**
+   * Approve or deny a held message through Helix and take it off the queue
+   */
+  async resolve(messageId: string, action: AutoModAction): Promise<HeldMessage | null> {
+    await this.resolver(messageId, action);
+
+    const message = this.held.get(messageId) || null;
+    this.held.delete(messageId);
+    this.stats[action === 'ALLOW' ? 'approved' : 'denied']++;
+    return message;
+  }
+
+  getStats(): AutoModQueueStats {
+    this.dropStale();
+    return { pending: this.held.size, ...this.stats };
+  }
+
+  private dropStale(): void {
+    const cutoff = Date.now() - HELD_MESSAGE_TTL_MS;
+    for (const [id, message] of this.held) {
+      if (message.heldAt.getTime() < cutoff) {
+        this.held.delete(id);
+        this.stats.expired++;
+      }
+    }
+  }
+}
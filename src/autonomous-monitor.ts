@@ -1,13 +1,26 @@
+import { randomUUID } from 'crypto';
 import { 
   AutonomousConfig, 
   AutonomousState, 
   ChatMessage, 
   ActionDecision,
-  FeedbackEntry
+  FeedbackEntry,
+  ModeratorAction,
+  ResolvedTarget,
+  TargetResolver
 } from './autonomous-types';
 import { AIPatternAnalyzer, AIAnalysisFunction } from './pattern-analyzer';
-import { AIDecisionEngine } from './decision-engine';
+import { AIDecisionEngine, RiskLevel, getToolRiskLevel } from './decision-engine';
 import { FeedbackRecorder } from './feedback-recorder';
+import { StrikeLedger } from './strike-ledger';
+import { ApprovalQueue, PendingAction } from './approval-queue';
+import { UserProfileProvider } from './user-profile';
+import { StreamEvent } from './stream-events';
+import { AccountAgeLookup, DEFAULT_WAVE_DETECTION, WaveDetectionConfig } from './wave-detector';
+import { BlockedTermsCheck } from './blocked-terms';
+import { HeldMessage, HeldMessageCheck } from './automod-queue';
+import { ShieldModeRule } from './shield-mode-rule';
+import { ToolAvailabilityCheck } from './twitch-auth';
 
 interface AutonomousMonitorConfig {
   autonomous: AutonomousConfig;
@@ -15,8 +28,44 @@ interface AutonomousMonitorConfig {
   maxFeedbackRetentionDays: number;
 }
 
+const RISK_ORDER: Record<RiskLevel, number> = { low: 0, medium: 1, high: 2 };
+
+const STREAM_EVENT_WINDOW_MS = 5 * 60 * 1000; // matches the analysis time span
+
+// actionId is the id of the decision being executed, so the strike it records can be traced back
 interface MCPToolExecutor {
-  (toolName: string, parameters: Record<string, any>): Promise<{ success: boolean; result: any; error?: string }>;
+  (toolName: string, parameters: Record<string, any>, actionId?: string): Promise<{ success: boolean; result: any; error?: string }>;
+}
+
+interface AutonomousMonitorOptions {
+  targetResolver?: TargetResolver; // who an action would hit, for shadow mode and strike lookups
+  userProfileProvider?: UserProfileProvider; // profiles of moderation targets for parameter generation
+  accountAgeLookup?: AccountAgeLookup; // account creation dates for raid/bot-wave detection
+  blockedTerms?: BlockedTermsCheck; // local blocklist matcher for toxicity and spam
+  heldMessageCheck?: HeldMessageCheck; // local detectors for the AutoMod approval policy
+  toolAvailability?: ToolAvailabilityCheck; // tools the Twitch token lacks scopes for are not used
+  startAnalysisCycle?: () => void; // restores the AI provider's per-cycle budget
+}
+
+// Wave detection thresholds come from the raidDefense rule, which may be absent in older configs
+function waveDetectionConfig(config: AutonomousConfig): WaveDetectionConfig {
+  const rule = config.rules.raidDefense;
+  return rule
+    ? {
+      windowSeconds: rule.windowSeconds,
+      minChatters: rule.minChatters,
+      similarityThreshold: rule.similarityThreshold,
+      maxAccountAgeDays: rule.maxAccountAgeDays
+    }
+    : DEFAULT_WAVE_DETECTION;
+}
+
+// The user an executed moderation action hit, as reported by the executor
+function executedTarget(result: any): { resolvedTarget?: ResolvedTarget } {
+  if (typeof result?.user !== 'string') {
+    return {};
+  }
+  return { resolvedTarget: { username: result.user, ...(result.userId ? { userId: String(result.userId) } : {}) } };
 }
 
 export class AutonomousMonitor {
@@ -25,23 +74,53 @@ export class AutonomousMonitor {
   private decisionEngine: AIDecisionEngine;
   private feedbackRecorder: FeedbackRecorder;
   private mcpExecutor: MCPToolExecutor;
+  private strikeLedger: StrikeLedger;
+  private approvalQueue: ApprovalQueue;
+  private targetResolver?: TargetResolver;
+  private heldMessageCheck?: HeldMessageCheck;
+  private toolAvailability?: ToolAvailabilityCheck;
+  private startAnalysisCycle?: () => void;
+  private shieldModeRule: ShieldModeRule | null;
   
   private state: AutonomousState;
   private monitoringTimer: NodeJS.Timeout | null = null;
   private recentMessages: ChatMessage[] = [];
+  private recentStreamEvents: StreamEvent[] = [];
+  private receivedCount = 0; // total messages ever added
+  private analyzedCount = 0; // watermark: the first analyzedCount received messages have been analyzed
   private isRunning = false;
 
   constructor(
     config: AutonomousMonitorConfig,
     aiAnalyzeFunction: AIAnalysisFunction,
-    mcpExecutor: MCPToolExecutor
+    mcpExecutor: MCPToolExecutor,
+    strikeLedger: StrikeLedger,
+    options: AutonomousMonitorOptions = {}
   ) {
     this.config = config;
     this.mcpExecutor = mcpExecutor;
+    this.strikeLedger = strikeLedger;
+    this.targetResolver = options.targetResolver;
+    this.heldMessageCheck = options.heldMessageCheck;
+    this.toolAvailability = options.toolAvailability;
+    this.startAnalysisCycle = options.startAnalysisCycle;
+    this.shieldModeRule = config.autonomous.rules.shieldMode ? new ShieldModeRule(config.autonomous.rules.shieldMode) : null;
 
     // Initialize components
-    this.patternAnalyzer = new AIPatternAnalyzer(aiAnalyzeFunction);
-    this.decisionEngine = new AIDecisionEngine(aiAnalyzeFunction, config.autonomous);
+    this.patternAnalyzer = new AIPatternAnalyzer(aiAnalyzeFunction, config.autonomous.analysisMode, {
+      waveDetection: waveDetectionConfig(config.autonomous),
+      accountAgeLookup: options.accountAgeLookup,
+      blockedTerms: options.blockedTerms
+    });
+    this.decisionEngine = new AIDecisionEngine(
+      aiAnalyzeFunction,
+      config.autonomous,
+      strikeLedger,
+      options.userProfileProvider,
+      options.toolAvailability,
+      options.targetResolver
+    );
+    this.approvalQueue = new ApprovalQueue(config.autonomous.approval?.expiryMinutes ?? 10);
     this.feedbackRecorder = new FeedbackRecorder({
       feedbackDir: config.feedbackDir,
       maxEntriesPerFile: 100,
@@ -126,6 +205,7 @@ export class AutonomousMonitor {
    */
   addChatMessages(messages: ChatMessage[]): void {
     this.recentMessages.push(...messages);
+    this.receivedCount += messages.length;
     
     // Keep only recent messages (last 100)
     if (this.recentMessages.length > 100) {
@@ -133,17 +213,28 @@ export class AutonomousMonitor {
     }
   }
 
+  /**
+   * Add stream events (follows, subs, raids, ...) to be considered in the next analysis
+   */
+  addStreamEvents(events: StreamEvent[]): void {
+    this.recentStreamEvents.push(...events);
+
+    if (this.recentStreamEvents.length > 50) {
+      this.recentStreamEvents = this.recentStreamEvents.slice(-50);
+    }
+  }
+
   /**
    * Add user feedback for a recent action
    */
   async addUserFeedback(
-    actionTimestamp: Date,
+    actionId: string,
     rating: 1 | 2 | 3 | 4 | 5,
     comment?: string,
     source: 'chat' | 'manual' | 'streamer' = 'chat'
   ): Promise<boolean> {
     const success = await this.feedbackRecorder.addUserFeedback(
-      actionTimestamp, 
+      actionId,
       rating, 
       comment, 
       source
@@ -152,6 +243,11 @@ export class AutonomousMonitor {
     if (success) {
       // Update learning data
       await this.updateLearningFromFeedback();
+
+      const reversal = this.config.autonomous.mistakeReversal;
+      if (reversal?.enabled && rating <= reversal.maxRating) {
+        await this.reverseAction(actionId);
+      }
     }
 
     return success;
@@ -161,19 +257,37 @@ export class AutonomousMonitor {
    * Record the outcome of a recent action
    */
   async recordActionOutcome(
-    actionTimestamp: Date,
+    actionId: string,
     effective: boolean,
     chatResponse?: string,
     sideEffects?: string[]
   ): Promise<boolean> {
     return await this.feedbackRecorder.recordOutcome(
-      actionTimestamp,
+      actionId,
       effective,
       chatResponse,
       sideEffects
     );
   }
 
+  /**
+   * Autonomous actions recorded against a user, oldest first
+   */
+  getFeedbackForUser(username: string, userId?: string): FeedbackEntry[] {
+    return this.feedbackRecorder.getEntriesForUser(username, userId);
+  }
+
+  /**
+   * Record a timeout, ban or deletion by a human moderator. Only kept in shadow mode, where shadow
+   * decisions are compared against them; otherwise the agent's own actions would show up too.
+   */
+  async recordModeratorAction(action: ModeratorAction): Promise<void> {
+    if (!this.config.autonomous.shadowMode) {
+      return;
+    }
+    await this.feedbackRecorder.recordModeratorAction(action);
+  }
+
   /**
    * Get current autonomous state
    */
@@ -187,6 +301,18 @@ export class AutonomousMonitor {
   updateConfig(newConfig: AutonomousMonitorConfig): void {
     this.config = newConfig;
     this.decisionEngine.updateConfig(newConfig.autonomous);
+    this.patternAnalyzer.setMode(newConfig.autonomous.analysisMode || 'perAspect');
+    this.patternAnalyzer.setWaveDetection(waveDetectionConfig(newConfig.autonomous));
+    if (newConfig.autonomous.approval) {
+      this.approvalQueue.setExpiry(newConfig.autonomous.approval.expiryMinutes);
+    }
+    if (newConfig.autonomous.strikeLadder) {
+      this.strikeLedger.updateConfig(newConfig.autonomous.strikeLadder);
+    }
+    if (newConfig.autonomous.rules.shieldMode) {
+      this.shieldModeRule ??= new ShieldModeRule(newConfig.autonomous.rules.shieldMode);
+      this.shieldModeRule.updateConfig(newConfig.autonomous.rules.shieldMode);
+    }
     this.state.isActive = newConfig.autonomous.enabled;
 
     if (!newConfig.autonomous.enabled && this.isRunning) {
@@ -203,9 +329,16 @@ export class AutonomousMonitor {
     executed: ActionDecision[];
   }> {
     console.log('Forcing immediate chat analysis...');
+    this.startAnalysisCycle?.();
     
-    // Analyze current chat
-    const analysis = await this.patternAnalyzer.analyzeChat(this.recentMessages);
+    // Analyze messages that haven't been analyzed yet
+    const batch = this.takeUnanalyzedMessages();
+    if (!batch) {
+      console.log('No new messages to analyze');
+      return { patterns: [], decisions: [], executed: [] };
+    }
+
+    const analysis = await this.patternAnalyzer.analyzeChat(batch.newMessages, batch.contextMessages);
     console.log(`Analysis complete: ${analysis.patterns.length} patterns detected, needs attention: ${analysis.needsAttention}`);
 
     // Make decisions
@@ -241,7 +374,13 @@ export class AutonomousMonitor {
     report += `## Performance Metrics\n\n`;
     report += `- **Total Actions:** ${metrics.totalActions}\n`;
     report += `- **Success Rate:** ${(metrics.successRate * 100).toFixed(1)}%\n`;
-    report += `- **Average Rating:** ${metrics.averageRating.toFixed(1)}/5\n\n`;
+    report += `- **Average Rating:** ${metrics.averageRating.toFixed(1)}/5\n`;
+    if (metrics.shadowActions > 0) {
+      const agreement = metrics.shadowAgreement;
+      report += `- **Shadow Decisions:** ${metrics.shadowActions} (average rating ${metrics.shadowAverageRating.toFixed(1)}/5)\n`;
+      report += `- **Shadow vs Moderators:** ${agreement.matched} matched, ${agreement.agentOnly} agent only, ${agreement.moderatorOnly} moderators only\n`;
+    }
+    report += '\n';
     
     if (metrics.mostSuccessfulActions.length > 0) {
       report += `### Most Successful Actions\n`;
@@ -278,15 +417,30 @@ export class AutonomousMonitor {
    * Main monitoring loop
    */
   private async monitoringLoop(): Promise<void> {
-    if (!this.state.isActive || this.recentMessages.length === 0) {
+    if (!this.state.isActive) {
+      return;
+    }
+
+    this.approvalQueue.expireStale();
+    this.startAnalysisCycle?.();
+
+    // Skip the cycle entirely when nothing new has arrived
+    const batch = this.takeUnanalyzedMessages();
+    if (!batch) {
+      await this.applyShieldModeRule(); // a quiet chat can still end Shield Mode
       return;
     }
 
     try {
-      // Analyze recent chat messages
-      const analysis = await this.patternAnalyzer.analyzeChat(this.recentMessages);
+      // Analyze new chat messages, with earlier messages as context
+      const cutoff = Date.now() - STREAM_EVENT_WINDOW_MS;
+      const streamEvents = this.recentStreamEvents.filter(e => e.timestamp.getTime() >= cutoff);
+      const analysis = await this.patternAnalyzer.analyzeChat(batch.newMessages, batch.contextMessages, streamEvents);
       this.state.lastAnalysis = new Date();
 
+      this.shieldModeRule?.observe(analysis.patterns);
+      await this.applyShieldModeRule();
+
       // Only proceed if patterns need attention or there are high-confidence patterns
       const significantPatterns = analysis.patterns.filter(p => 
         p.confidence >= 0.6 && (p.severity >= 5 || analysis.needsAttention)
@@ -315,15 +469,7 @@ export class AutonomousMonitor {
       
       if (executed.length > 0) {
         console.log(`Autonomous monitor executed ${executed.length} actions successfully`);
-        
-        // Update statistics
-        this.updateStatistics(executed);
-        
-        // Store executed actions in recent actions
-        this.state.recentActions.push(...executed);
-        if (this.state.recentActions.length > 50) {
-          this.state.recentActions = this.state.recentActions.slice(-50);
-        }
+        this.recordExecuted(executed);
       }
 
     } catch (error) {
@@ -331,6 +477,103 @@ export class AutonomousMonitor {
     }
   }
 
+  /**
+   * Approve a message AutoMod is holding when the autoModApproval policy considers it low risk.
+   * The approval is an ordinary decision, so shadow mode and the approval queue apply.
+   */
+  async reviewHeldMessage(message: HeldMessage): Promise<void> {
+    const policy = this.config.autonomous.autoModApproval;
+    if (!this.state.isActive || !policy?.enabled) {
+      return;
+    }
+
+    const blockers: string[] = [];
+    if (message.reason === 'blocked_term') {
+      blockers.push('matched a blocked term');
+    }
+    if (message.level === undefined || message.level > policy.maxLevel) {
+      blockers.push(`AutoMod level ${message.level ?? 'unknown'} is above ${policy.maxLevel}`);
+    }
+    if (!message.category || !policy.categories.includes(message.category)) {
+      blockers.push(`category ${message.category || 'unknown'} is not auto-approved`);
+    }
+    blockers.push(...(this.heldMessageCheck?.(message) || []));
+
+    if (blockers.length > 0) {
+      console.log(`Leaving held message ${message.messageId} from ${message.user.login} for review: ${blockers.join('; ')}`);
+      return;
+    }
+
+    const executed = await this.executeDecisions([{
+      id: randomUUID(),
+      action: 'resolveAutoModMessage',
+      parameters: { messageId: message.messageId, action: 'ALLOW', usernameOrDescriptor: message.user.login, userId: message.user.id },
+      reason: `Low-risk held message (${message.category}, level ${message.level}) with no local detector findings: "${message.text}"`,
+      confidence: 0.8,
+      patterns: [],
+      timestamp: new Date()
+    }]);
+    this.recordExecuted(executed);
+  }
+
+  /**
+   * Turn Shield Mode on or off as the shieldMode rule decides; each transition is a decision
+   * of its own, recorded for feedback like any other action
+   */
+  private async applyShieldModeRule(): Promise<void> {
+    if (!this.shieldModeRule || !this.config.autonomous.rules.shieldMode?.enabled) {
+      return;
+    }
+
+    const decision = this.shieldModeRule.evaluate();
+    if (!decision) {
+      return;
+    }
+
+    console.log(`Shield Mode rule: turning Shield Mode ${decision.parameters.active ? 'on' : 'off'} (${decision.reason})`);
+    const executed = await this.executeDecisions([decision]);
+    if (executed.length > 0 || this.config.autonomous.shadowMode) {
+      this.shieldModeRule.confirm(decision.parameters.active);
+    }
+    this.recordExecuted(executed);
+  }
+
+  /**
+   * Note a Shield Mode change made outside the shieldMode rule, so the rule doesn't turn off
+   * Shield Mode someone else turned on
+   */
+  shieldModeChanged(active: boolean): void {
+    this.shieldModeRule?.noteExternalChange(active);
+  }
+
+  /**
+   * State of the shieldMode rule, or 'disabled'
+   */
+  getShieldModeRuleStatus(): ReturnType<ShieldModeRule['getStatus']> | 'disabled' {
+    return this.shieldModeRule && this.config.autonomous.rules.shieldMode?.enabled ? this.shieldModeRule.getStatus() : 'disabled';
+  }
+
+  /**
+   * Take the messages received since the last analysis and move the watermark past them
+   */
+  private takeUnanalyzedMessages(): { newMessages: ChatMessage[]; contextMessages: ChatMessage[] } | null {
+    // Messages that aged out of the buffer before being analyzed are skipped
+    const pending = Math.min(this.receivedCount - this.analyzedCount, this.recentMessages.length);
+    if (pending <= 0) {
+      return null;
+    }
+
+    // Advance before analyzing so overlapping cycles don't pick up the same messages
+    this.analyzedCount = this.receivedCount;
+
+    const splitAt = this.recentMessages.length - pending;
+    const contextSize = this.config.autonomous.analysisContextMessages ?? 20;
+    return {
+      newMessages: this.recentMessages.slice(splitAt),
+      contextMessages: this.recentMessages.slice(Math.max(0, splitAt - contextSize), splitAt)
+    };
+  }
+
   /**
    * Execute action decisions
    */
@@ -338,22 +581,46 @@ export class AutonomousMonitor {
     const executed: ActionDecision[] = [];
 
     for (const decision of decisions) {
+      // Rule and fallback decisions skip the engine's tool filter, so check the token here too
+      const unavailable = this.toolAvailability?.(decision.action, decision.parameters);
+      if (unavailable) {
+        console.warn(`Skipping ${decision.action}: ${unavailable}`);
+        continue;
+      }
+
+      if (this.config.autonomous.shadowMode) {
+        await this.recordShadowDecision(decision);
+        continue;
+      }
+
+      const holdReason = this.getHoldReason(decision);
+      if (holdReason) {
+        const pending = this.approvalQueue.hold(decision, getToolRiskLevel(decision.action), holdReason);
+        console.log(`Holding ${decision.action} for approval as #${pending.id}: ${holdReason}`);
+        continue;
+      }
+
       try {
         console.log(`Executing ${decision.action} with confidence ${decision.confidence}`);
         
         // Execute the MCP tool
-        const result = await this.mcpExecutor(decision.action, decision.parameters);
+        const result = await this.mcpExecutor(decision.action, decision.parameters, decision.id);
         
         if (result.success) {
           executed.push(decision);
           
-          // Record the action
-          await this.feedbackRecorder.recordAction(decision);
+          // Record the action with the user it hit, so a reversal doesn't resolve the target again
+          await this.feedbackRecorder.recordAction(decision, executedTarget(result.result));
           
           console.log(`Successfully executed ${decision.action}: ${decision.reason}`);
           
           // Brief pause between actions
           await new Promise(resolve => setTimeout(resolve, 1000));
+        } else if (result.result?.blocked) {
+          // Logged as a blocked action rather than dropped, so the decision can still be reviewed
+          console.warn(`Blocked ${decision.action}: ${result.error}`);
+          await this.feedbackRecorder.recordAction(decision);
+          await this.feedbackRecorder.recordOutcome(decision.id, false, undefined, ['blocked', `protected user: ${result.result.protection}`]);
         } else {
           console.error(`Failed to execute ${decision.action}:`, result.error);
         }
@@ -366,6 +633,190 @@ export class AutonomousMonitor {
     return executed;
   }
 
+  /**
+   * Log and record what a decision would have done, without executing it
+   */
+  private async recordShadowDecision(decision: ActionDecision): Promise<void> {
+    let resolvedTarget: ResolvedTarget | null = null;
+    if (this.targetResolver) {
+      try {
+        resolvedTarget = await this.targetResolver(decision.action, decision.parameters);
+      } catch (error) {
+        console.error(`Failed to resolve target for shadow ${decision.action}:`, error);
+      }
+    }
+
+    const target = resolvedTarget
+      ? ` -> ${resolvedTarget.username}${resolvedTarget.userId ? ` (${resolvedTarget.userId})` : ''}${resolvedTarget.messageId ? ` message ${resolvedTarget.messageId}` : ''}` +
+        (resolvedTarget.protection ? ` [would be blocked: protected ${resolvedTarget.protection}]` : '')
+      : '';
+    console.log(`[shadow] Would execute ${decision.action} ${JSON.stringify(decision.parameters)}${target}: ${decision.reason}`);
+
+    await this.feedbackRecorder.recordAction(decision, {
+      shadow: true,
+      ...(resolvedTarget ? { resolvedTarget } : {})
+    });
+  }
+
+  /**
+   * Why a decision needs human approval, or null if it can run right away
+   */
+  private getHoldReason(decision: ActionDecision): string | null {
+    const approval = this.config.autonomous.approval;
+    if (!approval?.enabled) {
+      return null;
+    }
+
+    const riskLevel = getToolRiskLevel(decision.action);
+    if (RISK_ORDER[riskLevel] > RISK_ORDER[approval.riskLevel]) {
+      return `${riskLevel}-risk action`;
+    }
+
+    if (decision.confidence < approval.minConfidence) {
+      return `confidence ${decision.confidence} is below ${approval.minConfidence}`;
+    }
+
+    return null;
+  }
+
+  /**
+   * Actions waiting for approval
+   */
+  getPendingActions(): PendingAction[] {
+    return this.approvalQueue.list();
+  }
+
+  /**
+   * Execute a held action and record the approval as streamer feedback
+   */
+  async approveAction(id: string, comment?: string): Promise<{ success: boolean; decision?: ActionDecision; error?: string }> {
+    const pending = this.approvalQueue.take(id);
+    if (!pending) {
+      return { success: false, error: `No pending action #${id} (it may have expired)` };
+    }
+
+    const decision: ActionDecision = { ...pending.decision, timestamp: new Date() };
+
+    let result: Awaited<ReturnType<MCPToolExecutor>>;
+    try {
+      result = await this.mcpExecutor(decision.action, decision.parameters, decision.id);
+      if (!result.success) {
+        return { success: false, decision, error: result.error };
+      }
+    } catch (error) {
+      return { success: false, decision, error: (error as Error).message };
+    }
+
+    if (decision.action === 'setShieldMode') {
+      this.shieldModeRule?.confirm(!!decision.parameters.active);
+    }
+
+    await this.feedbackRecorder.recordAction(decision, executedTarget(result.result));
+    await this.feedbackRecorder.addUserFeedback(decision.id, 5, comment || 'Approved by streamer', 'streamer');
+    await this.updateLearningFromFeedback();
+
+    this.recordExecuted([decision]);
+
+    return { success: true, decision };
+  }
+
+  /**
+   * Drop a held action and record the rejection as streamer feedback
+   */
+  async rejectAction(id: string, comment?: string): Promise<{ success: boolean; decision?: ActionDecision; error?: string }> {
+    const pending = this.approvalQueue.take(id);
+    if (!pending) {
+      return { success: false, error: `No pending action #${id} (it may have expired)` };
+    }
+
+    // Recorded so the rejection has an entry to attach to, but marked as never executed
+    const decision: ActionDecision = { ...pending.decision, timestamp: new Date() };
+    await this.feedbackRecorder.recordAction(decision);
+    await this.feedbackRecorder.recordOutcome(decision.id, false, undefined, ['rejected']);
+    await this.feedbackRecorder.addUserFeedback(decision.id, 1, comment ? `Rejected by streamer: ${comment}` : 'Rejected by streamer', 'streamer');
+    await this.updateLearningFromFeedback();
+
+    return { success: true, decision };
+  }
+
+  /**
+   * Undo a timeout or ban that was rated as a mistake and apologize in chat
+   */
+  private async reverseAction(actionId: string): Promise<void> {
+    const entry = this.feedbackRecorder.findEntry(actionId);
+    const sideEffects = entry?.outcome?.sideEffects || [];
+    if (!entry || entry.shadow || sideEffects.includes('reversed') || sideEffects.includes('blocked')) {
+      return;
+    }
+
+    const original = entry.actionTaken;
+    const reverseTool = original.action === 'banUser' ? 'unbanUser' : original.action === 'timeoutUser' ? 'removeTimeout' : null;
+    if (!reverseTool) {
+      return;
+    }
+
+    // Reverse the user the action hit, not whoever the original descriptor resolves to now
+    const target = entry.resolvedTarget;
+    if (!target) {
+      console.warn(`Not reversing ${original.action} ${original.id}: the user it hit was not recorded`);
+      return;
+    }
+    const user = target.username;
+    const parameters = {
+      usernameOrDescriptor: user,
+      ...(target.userId ? { userId: target.userId } : {})
+    };
+
+    try {
+      const result = await this.mcpExecutor(reverseTool, parameters);
+      if (!result.success) {
+        console.error(`Failed to reverse ${original.action} on ${user}:`, result.error);
+        return;
+      }
+
+      console.log(`Reversed ${original.action} on ${user} after low feedback rating`);
+      this.strikeLedger.removeStrike(user, original.id);
+
+      const reversal: ActionDecision = {
+        id: randomUUID(),
+        action: reverseTool,
+        parameters,
+        reason: `Reversing ${original.action} rated as a mistake`,
+        confidence: 1,
+        patterns: original.patterns,
+        timestamp: new Date()
+      };
+      await this.feedbackRecorder.recordAction(reversal, { resolvedTarget: { username: user, ...(target.userId ? { userId: target.userId } : {}) } });
+      await this.feedbackRecorder.recordOutcome(original.id, false, undefined, ['reversed']);
+
+      const template = this.config.autonomous.mistakeReversal!.apologyMessage;
+      const apology = template
+        .replace(/\{user\}/g, user)
+        .replace(/\{action\}/g, original.action === 'banUser' ? 'ban' : 'timeout');
+      const apologyResult = await this.mcpExecutor('sendMessageToChat', { message: apology });
+      if (!apologyResult.success) {
+        console.error('Failed to send apology message:', apologyResult.error);
+      }
+    } catch (error) {
+      console.error(`Error reversing ${original.action}:`, error);
+    }
+  }
+
+  /**
+   * Count executed actions and keep them in the recent actions
+   */
+  private recordExecuted(executed: ActionDecision[]): void {
+    if (executed.length === 0) {
+      return;
+    }
+
+    this.updateStatistics(executed);
+    this.state.recentActions.push(...executed);
+    if (this.state.recentActions.length > 50) {
+      this.state.recentActions = this.state.recentActions.slice(-50);
+    }
+  }
+
   /**
    * Update statistics based on executed actions
    */
@@ -484,9 +935,17 @@ export class AutonomousMonitor {
       isRunning: this.isRunning,
       state: this.state,
       recentMessagesCount: this.recentMessages.length,
+      unanalyzedMessagesCount: Math.min(this.receivedCount - this.analyzedCount, this.recentMessages.length),
+      pendingActionsCount: this.approvalQueue.list().length,
+      recentStreamEvents: this.recentStreamEvents.slice(-10),
       config: this.config,
       cooldownStatus: this.decisionEngine.getCooldownStatus(),
-      patternTrends: this.patternAnalyzer.getPatternTrends()
+      patternTrends: this.patternAnalyzer.getPatternTrends(),
+      analysisCost: this.patternAnalyzer.getCostStats(),
+      parseFailures: {
+        ...this.patternAnalyzer.getParseStats(),
+        ...this.decisionEngine.getParseStats()
+      }
     };
   }
 }
@@ -1,15 +1,102 @@
 // Autonomous monitoring types and interfaces for Twitch MCP Server
 
-// Basic chat message interface
+import { StreamEvent } from './stream-events';
+
+// Basic chat message interface, with the IRC tags we keep from Twitch
 export interface ChatMessage {
-  username: string;
+  id?: string; // IRC message id, used by Helix to delete a single message
+  userId?: string;
+  username: string; // login name
+  displayName?: string;
   content: string;
   timestamp: Date;
+  badges?: Record<string, string>; // badge name -> version, e.g. { subscriber: '12' }
+  isBroadcaster?: boolean;
+  isMod?: boolean;
+  isVip?: boolean;
+  isSubscriber?: boolean;
+  firstMessage?: boolean; // first message this user has sent in the channel
+  emotes?: Record<string, string[]>; // emote id -> character ranges like '0-4'
+  bits?: number;
+}
+
+// One rung of the strike ladder; a user's Nth active strike uses the Nth step
+export interface EscalationStep {
+  action: 'warn' | 'timeout' | 'ban';
+  duration?: number; // timeout duration in seconds
+}
+
+export interface StrikeLadderConfig {
+  enabled: boolean;
+  decayHours: number; // strikes older than this no longer count
+  steps: EscalationStep[];
+}
+
+// Users the agent must never time out, ban, warn or delete messages from
+export interface ProtectedUsersConfig {
+  moderators: boolean;
+  vips: boolean;
+  subscribers: boolean;
+  allowlist: string[]; // logins, e.g. the channel's own bots
+}
+
+// Lockdown applied when the analyzer detects a raid or bot wave; it is reverted after the cool-down
+export interface RaidDefenseConfig {
+  enabled: boolean;
+  windowSeconds: number; // how far back new chatters count towards a wave
+  minChatters: number; // new chatters in the window before a burst can be a wave
+  similarityThreshold: number; // 0-1, how alike two messages must be to count as the same text
+  maxAccountAgeDays: number; // accounts younger than this count as new
+  followersOnly: boolean;
+  followersOnlyMinutes: number; // required follow age while followers-only mode is on
+  emoteOnly: boolean;
+  shieldMode: boolean;
+  timeoutWave: boolean; // time out the wave's chatters until the cool-down ends
+  cooldownMinutes: number;
+}
+
+// Shield Mode switched on by sustained high-severity toxicity or spam, and off after a quiet period
+export interface ShieldModeRuleConfig {
+  enabled: boolean;
+  windowMinutes: number; // how far back incidents count
+  minUsers: number; // distinct offending users in the window that turn Shield Mode on
+  minSeverity: number; // 1-10, toxicity/spam severity that counts as an incident
+  quietMinutes: number; // minutes without incidents before Shield Mode is turned off
+}
+
+// Timed chat modes the agent may use instead of timing out many chatters one by one
+export interface ChatModesConfig {
+  enabled: boolean;
+  massSpamUsers: number; // distinct spammers in one cycle that call for slow mode instead of timeouts
+  slowModeSeconds: number;
+  revertAfterMinutes: number; // every chat mode change made by the agent is reverted after this
 }
 
 export interface AutonomousConfig {
   enabled: boolean;
   monitoringInterval: number; // milliseconds
+  shadowMode?: boolean; // decide and log actions without executing them
+  analysisMode?: 'perAspect' | 'batched'; // one prompt per aspect, or a single combined prompt
+  analysisContextMessages?: number; // already-analyzed messages included as context each cycle
+  mistakeReversal?: {
+    enabled: boolean;
+    maxRating: number; // feedback ratings at or below this reverse the action
+    apologyMessage: string; // {user} and {action} are replaced
+  };
+  strikeLadder?: StrikeLadderConfig; // replaces the rules' fixed action and duration when enabled
+  approval?: {
+    enabled: boolean;
+    riskLevel: 'low' | 'medium' | 'high'; // actions riskier than this wait for approval
+    minConfidence: number; // decisions less confident than this wait for approval
+    expiryMinutes: number; // pending actions are dropped after this long
+  };
+  protectedUsers?: ProtectedUsersConfig; // the broadcaster is always protected
+  autoModApproval?: {
+    enabled: boolean;
+    maxLevel: number; // highest AutoMod level (1-4) that can be approved automatically
+    categories: string[]; // AutoMod categories that can be approved automatically
+  };
+  warningMessage?: string; // chat reply used when a Helix warning can't be sent; {user} and {reason} are replaced
   rules: {
     spamDetection: {
       enabled: boolean;
@@ -33,20 +120,27 @@ export interface AutonomousConfig {
       trigger: 'viewerRequest' | 'scheduled' | 'gameEvent';
       cooldown: number; // minutes between polls
     };
+    raidDefense?: RaidDefenseConfig;
+    chatModes?: ChatModesConfig;
+    shieldMode?: ShieldModeRuleConfig;
   };
 }
 
 export interface ChatPattern {
-  type: 'spam' | 'toxicity' | 'quiet' | 'excitement' | 'question' | 'request';
+  type: 'spam' | 'toxicity' | 'quiet' | 'excitement' | 'question' | 'request' | 'raid';
   severity: number; // 1-10
   confidence: number; // 0-1
   users: string[];
+  userIds?: string[];
   messages: string[];
+  messageIds?: string[];
+  sourceMessages?: ChatMessage[]; // the exact chat messages the pattern was detected in
   timestamp: Date;
   metadata?: Record<string, any>;
 }
 
 export interface ActionDecision {
+  id: string; // unique; feedback, outcomes and reversals find the action by it
   action: string; // MCP tool name
   parameters: Record<string, any>;
   reason: string;
@@ -55,9 +149,25 @@ export interface ActionDecision {
   timestamp: Date;
 }
 
+// Who an action would have hit, resolved without executing it
+export interface ResolvedTarget {
+  username: string;
+  userId?: string;
+  messageId?: string;
+  protection?: string; // why the action would have been blocked, if the target is protected
+}
+
+// Resolves who an action would hit without executing it
+export interface TargetResolver {
+  (toolName: string, parameters: Record<string, any>): Promise<ResolvedTarget | null>;
+}
+
 export interface FeedbackEntry {
+  id: string; // the id of the action taken
   timestamp: Date;
   actionTaken: ActionDecision;
+  shadow?: boolean; // decided in shadow mode and never executed
+  resolvedTarget?: ResolvedTarget;
   userFeedback?: {
     rating: 1 | 2 | 3 | 4 | 5; // 1 = poor, 5 = excellent
     comment?: string;
@@ -70,6 +180,23 @@ export interface FeedbackEntry {
   };
 }
 
+// A timeout, ban or message deletion by a human moderator, as seen in chat
+export interface ModeratorAction {
+  timestamp: Date;
+  action: 'timeout' | 'ban' | 'delete';
+  username: string;
+  userId?: string;
+  messageId?: string; // the deleted message
+  duration?: number; // timeout duration in seconds
+}
+
+// How shadow decisions compare with what human moderators did
+export interface ShadowAgreement {
+  matched: number; // shadow decisions a moderator also acted on
+  agentOnly: number; // shadow decisions no moderator acted on
+  moderatorOnly: number; // moderator actions no shadow decision matched
+}
+
 export interface AutonomousState {
   isActive: boolean;
   lastAnalysis: Date;
@@ -93,4 +220,5 @@ export interface ChatAnalysisResult {
   activityLevel: number; // 0-10
   needsAttention: boolean;
   recommendations: string[];
+  streamEvents?: StreamEvent[]; // stream events the analysis took into account
 }
@@ -0,0 +1,216 @@
+import { promises as fs } from 'fs';
+
+export type BlockedTermCategory = 'toxicity' | 'spam';
+
+export interface BlockedTerm {
+  pattern: string; // wildcard text (`*` matches any letters) or a regular expression
+  type: 'wildcard' | 'regex';
+  category: BlockedTermCategory;
+  severity: number; // 1-10
+  source: 'twitch' | 'local';
+  id?: string; // Helix id of a Twitch term
+}
+
+export interface BlockedTermMatch {
+  term: BlockedTerm;
+  matched: string; // the part of the normalised message that matched
+}
+
+// Checks a message against the blocked terms; used by the pattern analyzer
+export interface BlockedTermsCheck {
+  (text: string): BlockedTermMatch[];
+}
+
+// Twitch only stores the text of a term, so synced terms get a fixed category and severity
+const TWITCH_TERM_CATEGORY: BlockedTermCategory = 'toxicity';
+const TWITCH_TERM_SEVERITY = 7;
+
+// Letters from other scripts that look like Latin ones
+const CONFUSABLES: Record<string, string> = {
+  'а': 'a', 'в': 'b', 'е': 'e', 'ё': 'e', 'к': 'k', 'м': 'm', 'н': 'h', 'о': 'o', 'р': 'p', 'с': 'c',
+  'т': 't', 'у': 'y', 'х': 'x', 'і': 'i', 'ї': 'i', 'ј': 'j', 'ѕ': 's', 'ԁ': 'd', 'ɡ': 'g', 'һ': 'h',
+  'α': 'a', 'β': 'b', 'ε': 'e', 'η': 'n', 'ι': 'i', 'κ': 'k', 'ν': 'v', 'ο': 'o', 'ρ': 'p', 'τ': 't',
+  'υ': 'u', 'χ': 'x', 'ı': 'i', 'ł': 'l', 'ø': 'o', 'đ': 'd', 'ß': 'ss'
+};
+
+const LEETSPEAK: Record<string, string> = {
+  '0': 'o', '1': 'i', '3': 'e', '4': 'a', '5': 's', '7': 't', '8': 'b', '9': 'g',
+  '@': 'a', '$': 's', '!': 'i', '|': 'l', '+': 't', '€': 'e', '¥': 'y'
+};
+
+const INVISIBLE = /[\u00AD\u200B-\u200F\u2060\uFEFF]/g; // soft hyphens, zero-width and direction marks
+
+/**
+ * Fold text to plain lowercase Latin letters so look-alikes match: fullwidth and styled letters,
+ * accents, Cyrillic/Greek confusables and leetspeak ("Κ¥Ѕ", "k1ll", "ｆｒｅｅ")
+ */
+export function normalizeForMatching(text: string): string {
+  const folded = text
+    .normalize('NFKC')
+    .toLowerCase()
+    .normalize('NFD')
+    .replace(/\p{M}/gu, '')
+    .replace(INVISIBLE, '');
+
+  return Array.from(folded).map(char => CONFUSABLES[char] ?? LEETSPEAK[char] ?? char).join('');
+}
+
+/**
+ * Blocked terms from Twitch (synced from Helix) and a local list kept in a JSON file.
+ * Both are matched locally against normalised text, which also catches the obfuscated
+ * spellings Twitch's own filter lets through.
+ */
+export class BlockedTermList {
+  private file: string | null;
+  private twitchTerms: BlockedTerm[] = [];
+  private localTerms: BlockedTerm[] = [];
+  private compiled: Map<BlockedTerm, RegExp> = new Map();
+  private lastSync: Date | null = null;
+
+  constructor(file: string | null) {
+    this.file = file;
+  }
+
+  /**
+   * Read the local terms from the file; terms that don't compile are skipped
+   */
+  async load(): Promise<void> {
+    if (!this.file) {
+      return;
+    }
+
+    try {
+      const stored = JSON.parse(await fs.readFile(this.file, 'utf8')) as Omit<BlockedTerm, 'source'>[];
+      this.localTerms = [];
+      for (const entry of stored) {
+        try {
+          this.localTerms.push(this.createTerm({ ...entry, source: 'local' }));
+        } catch (error) {
+          console.error(`Skipping blocked term ${entry.pattern}:`, (error as Error).message);
+        }
+      }
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code !== 'ENOENT') {
+        console.error('Failed to load blocked terms:', error);
+      }
+    }
+  }
+
+  /**
+   * Replace the Twitch terms with the channel's current list from Helix
+   */
+  setTwitchTerms(terms: { id: string; text: string }[]): void {
+    this.twitchTerms.forEach(term => this.compiled.delete(term));
+    this.twitchTerms = [];
+    for (const { id, text } of terms) {
+      try {
+        this.twitchTerms.push(this.createTerm({
+          pattern: text,
+          type: 'wildcard',
+          category: TWITCH_TERM_CATEGORY,
+          severity: TWITCH_TERM_SEVERITY,
+          source: 'twitch',
+          id
+        }));
+      } catch {
+        // Terms made only of symbols have nothing to match locally
+      }
+    }
+    this.lastSync = new Date();
+  }
+
+  getTwitchTerms(): BlockedTerm[] {
+    return [...this.twitchTerms];
+  }
+
+  getLocalTerms(): BlockedTerm[] {
+    return [...this.localTerms];
+  }
+
+  getLastSync(): Date | null {
+    return this.lastSync;
+  }
+
+  /**
+   * Add or replace a local term and save the list; throws if a regex doesn't compile
+   */
+  async addLocal(entry: Omit<BlockedTerm, 'source' | 'id'>): Promise<BlockedTerm> {
+    const term = this.createTerm({ ...entry, source: 'local' });
+    const existing = this.localTerms.find(t => t.pattern === term.pattern);
+    if (existing) {
+      this.compiled.delete(existing);
+    }
+
+    this.localTerms = [...this.localTerms.filter(t => t !== existing), term];
+    await this.save();
+    return term;
+  }
+
+  /**
+   * Remove a local term by its pattern and save the list
+   */
+  async removeLocal(pattern: string): Promise<BlockedTerm | null> {
+    const term = this.localTerms.find(t => t.pattern === pattern);
+    if (!term) {
+      return null;
+    }
+
+    this.localTerms = this.localTerms.filter(t => t !== term);
+    this.compiled.delete(term);
+    await this.save();
+    return term;
+  }
+
+  /**
+   * Every term the text matches, most severe first
+   */
+  match(text: string): BlockedTermMatch[] {
+    const normalized = normalizeForMatching(text);
+    const matches: BlockedTermMatch[] = [];
+
+    for (const term of [...this.localTerms, ...this.twitchTerms]) {
+      const regex = this.compiled.get(term);
+      if (!regex) continue;
+
+      // Regexes are written against real text, so they also get the original message
+      const hit = regex.exec(normalized) || (term.type === 'regex' ? regex.exec(text) : null);
+      if (hit) {
+        matches.push({ term, matched: hit[0] });
+      }
+    }
+
+    return matches.sort((a, b) => b.term.severity - a.term.severity);
+  }
+
+  private createTerm(term: BlockedTerm): BlockedTerm {
+    this.compiled.set(term, term.type === 'regex' ? new RegExp(term.pattern, 'iu') : wildcardRegex(term.pattern));
+    return term;
+  }
+
+  private async save(): Promise<void> {
+    if (!this.file) {
+      return;
+    }
+
+    const stored = this.localTerms.map(({ pattern, type, category, severity }) => ({ pattern, type, category, severity }));
+    await fs.writeFile(this.file, JSON.stringify(stored, null, 2) + '\n');
+  }
+}
+
+/**
+ * Whole-word regex for a wildcard term. Letters may repeat and be split by one separator
+ * ("kyyys", "k.y.s"); `*` matches any run of letters and digits.
+ */
+function wildcardRegex(pattern: string): RegExp {
+  const words = normalizeForMatching(pattern).split(/[^\p{L}\p{N}*]+/u).filter(Boolean);
+  if (!words.some(word => /[\p{L}\p{N}]/u.test(word))) {
+    throw new Error('A wildcard term needs at least one letter or digit');
+  }
+  const body = words.map(word =>
+    Array.from(word)
+      .map(char => char === '*' ? '[\\p{L}\\p{N}]*' : `${char.replace(/[.*+?^${}()|[\]\\]/g, '\\$&')}+`)
+      .join('[^\\p{L}\\p{N}]?')
+  ).join('[^\\p{L}\\p{N}]+');
+
+  return new RegExp(`(?<![\\p{L}\\p{N}])${body}(?![\\p{L}\\p{N}])`, 'u');
+}
@@ -0,0 +1,197 @@
+import { ChatPattern, ChatModesConfig } from './autonomous-types';
+
+// Chat modes, one value per mode so each can be changed and reverted on its own
+export interface ChatSettings {
+  slowMode: number | null; // seconds between messages, null when off
+  followersOnly: number | null; // required follow age in minutes, null when off
+  subscribersOnly: boolean;
+  emoteOnly: boolean;
+  uniqueChat: boolean;
+}
+
+export type ChatMode = keyof ChatSettings;
+
+// Helix /chat/settings calls, supplied by the server
+export interface ChatSettingsApi {
+  fetch(): Promise<ChatSettings>;
+  patch(changes: Partial<ChatSettings>): Promise<ChatSettings>;
+}
+
+export interface ScheduledRevert {
+  mode: ChatMode;
+  value: ChatSettings[ChatMode]; // value restored when the revert runs
+  revertAt: Date;
+}
+
+interface PendingRevert extends ScheduledRevert {
+  timer: NodeJS.Timeout;
+}
+
+const CHAT_MODES: ChatMode[] = ['slowMode', 'followersOnly', 'subscribersOnly', 'emoteOnly', 'uniqueChat'];
+
+/**
+ * Reads and changes chat settings, optionally reverting each changed mode after a while
+ * ("slow mode for 10 minutes"). A later change to a mode replaces its pending revert; a later
+ * timed change keeps restoring the value from before the first one.
+ */
+export class ChatSettingsController {
+  private api: ChatSettingsApi;
+  private pendingReverts: Map<ChatMode, PendingRevert> = new Map();
+
+  constructor(api: ChatSettingsApi) {
+    this.api = api;
+  }
+
+  async get(): Promise<ChatSettings> {
+    return await this.api.fetch();
+  }
+
+  async update(changes: Partial<ChatSettings>, revertAfterMinutes?: number): Promise<{ settings: ChatSettings; revertAt?: Date }> {
+    const modes = CHAT_MODES.filter(mode => changes[mode] !== undefined);
+    if (modes.length === 0) {
+      return { settings: await this.api.fetch() };
+    }
+
+    const previous = revertAfterMinutes ? await this.api.fetch() : null;
+    const settings = await this.api.patch(changes);
+
+    if (!previous || !revertAfterMinutes) {
+      modes.forEach(mode => this.cancelRevert(mode));
+      return { settings };
+    }
+
+    const revertAt = new Date(Date.now() + revertAfterMinutes * 60 * 1000);
+    for (const mode of modes) {
+      const original = this.pendingReverts.has(mode) ? this.pendingReverts.get(mode)!.value : previous[mode];
+      this.cancelRevert(mode);
+      if (original === settings[mode]) continue; // nothing to undo
+
+      this.pendingReverts.set(mode, {
+        mode,
+        value: original,
+        revertAt,
+        timer: setTimeout(() => this.runRevert(mode), revertAfterMinutes * 60 * 1000)
+      });
+    }
+
+    return { settings, revertAt };
+  }
+
+  /**
+   * Restore the given modes (default: all) now instead of waiting for their timers
+   */
+  async revertNow(modes: ChatMode[] = Array.from(this.pendingReverts.keys())): Promise<ChatMode[]> {
+    const changes: Partial<ChatSettings> = {};
+    const reverted: ChatMode[] = [];
+
+    for (const mode of modes) {
+      const pending = this.pendingReverts.get(mode);
+      if (!pending) continue;
+      this.cancelRevert(mode);
+      Object.assign(changes, { [mode]: pending.value });
+      reverted.push(mode);
+    }
+
+    if (reverted.length > 0) {
+      await this.api.patch(changes);
+    }
+    return reverted;
+  }
+
+  getScheduledReverts(): ScheduledRevert[] {
+    return Array.from(this.pendingReverts.values()).map(({ mode, value, revertAt }) => ({ mode, value, revertAt }));
+  }
+
+  private cancelRevert(mode: ChatMode): void {
+    const pending = this.pendingReverts.get(mode);
+    if (pending) {
+      clearTimeout(pending.timer);
+      this.pendingReverts.delete(mode);
+    }
+  }
+
+  private runRevert(mode: ChatMode): void {
+    this.revertNow([mode])
+      .then(reverted => {
+        if (reverted.length > 0) {
+          console.log(`Chat setting ${mode} reverted`);
+        }
+      })
+      .catch(error => console.error(`Failed to revert chat setting ${mode}:`, error?.message || error));
+  }
+}
+
+/**
+ * Short description such as "slow mode 30s, followers-only (10 min), emote-only"
+ */
+export function describeChatSettings(settings: Partial<ChatSettings>): string {
+  const parts: string[] = [];
+
+  if (settings.slowMode !== undefined) {
+    parts.push(settings.slowMode !== null ? `slow mode ${settings.slowMode}s` : 'slow mode off');
+  }
+  if (settings.followersOnly !== undefined) {
+    parts.push(settings.followersOnly !== null
+      ? `followers-only${settings.followersOnly > 0 ? ` (${settings.followersOnly} min)` : ''}`
+      : 'followers-only off');
+  }
+  if (settings.subscribersOnly !== undefined) {
+    parts.push(`subscriber-only ${settings.subscribersOnly ? 'on' : 'off'}`);
+  }
+  if (settings.emoteOnly !== undefined) {
+    parts.push(`emote-only ${settings.emoteOnly ? 'on' : 'off'}`);
+  }
+  if (settings.uniqueChat !== undefined) {
+    parts.push(`unique chat ${settings.uniqueChat ? 'on' : 'off'}`);
+  }
+
+  return parts.join(', ');
+}
+
+// Tool parameters for a chat settings change, as accepted by updateChatSettings
+export interface ChatSettingsParameters {
+  slowMode?: boolean;
+  slowModeSeconds?: number;
+  followersOnly?: boolean;
+  followersOnlyMinutes?: number;
+  subscribersOnly?: boolean;
+  emoteOnly?: boolean;
+  uniqueChat?: boolean;
+}
+
+/**
+ * Changes requested by tool parameters; a wait time or follow age alone switches its mode on
+ */
+export function chatSettingsChanges(parameters: ChatSettingsParameters): Partial<ChatSettings> {
+  const changes: Partial<ChatSettings> = {};
+
+  if (parameters.slowMode === false) {
+    changes.slowMode = null;
+  } else if (parameters.slowMode || parameters.slowModeSeconds !== undefined) {
+    changes.slowMode = parameters.slowModeSeconds ?? 30;
+  }
+  if (parameters.followersOnly === false) {
+    changes.followersOnly = null;
+  } else if (parameters.followersOnly || parameters.followersOnlyMinutes !== undefined) {
+    changes.followersOnly = parameters.followersOnlyMinutes ?? 0;
+  }
+  if (parameters.subscribersOnly !== undefined) changes.subscribersOnly = parameters.subscribersOnly;
+  if (parameters.emoteOnly !== undefined) changes.emoteOnly = parameters.emoteOnly;
+  if (parameters.uniqueChat !== undefined) changes.uniqueChat = parameters.uniqueChat;
+
+  return changes;
+}
+
+/**
+ * Spam patterns to answer with one timed slow mode instead of a timeout per user: the
+ * non-severe spam of a cycle, when it comes from enough different users. Null otherwise.
+ */
+export function findMassSpam(patterns: ChatPattern[], config?: ChatModesConfig): ChatPattern[] | null {
+  if (!config?.enabled) {
+    return null;
+  }
+
+  const spam = patterns.filter(p => p.type === 'spam' && p.confidence >= 0.6 && p.severity < 8);
+  const users = new Set(spam.flatMap(p => p.users.map(u => u.toLowerCase())));
+  return users.size >= config.massSpamUsers ? spam : null;
+}
@@ -0,0 +1,166 @@
+import { promises as fs } from 'fs';
+import { join } from 'path';
+import { ChatMessage } from './autonomous-types';
+
+interface ChatStoreConfig {
+  dir: string;
+  retentionDays: number;
+}
+
+export type ChatMessageFlag = 'broadcaster' | 'mod' | 'vip' | 'subscriber' | 'firstMessage' | 'bits';
+
+export interface ChatSearchQuery {
+  username?: string;
+  userId?: string;
+  since: Date;
+  until: Date;
+  text?: string; // case-insensitive substring
+  regex?: RegExp;
+  flags?: ChatMessageFlag[]; // every flag must be set on the message
+  limit: number;
+  offset: number;
+}
+
+export interface ChatSearchResult {
+  messages: ChatMessage[]; // newest first
+  total: number;
+  nextOffset: number | null;
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const FILE_PATTERN = /^chat-(\d{4}-\d{2}-\d{2})\.jsonl$/;
+
+/**
+ * Append-only chat history, one JSONL file per UTC day
+ */
+export class ChatStore {
+  private config: ChatStoreConfig;
+  private writeQueue: Promise<void> = Promise.resolve();
+  private currentDay = '';
+
+  constructor(config: ChatStoreConfig) {
+    this.config = config;
+  }
+
+  /**
+   * Queue a message to be appended to today's file; writes stay in arrival order
+   */
+  append(message: ChatMessage): void {
+    this.writeQueue = this.writeQueue
+      .then(() => this.write(message))
+      .catch(error => console.error('Failed to store chat message:', error));
+  }
+
+  /**
+   * Find stored messages matching a query, newest first
+   */
+  async search(query: ChatSearchQuery): Promise<ChatSearchResult> {
+    await this.writeQueue; // include messages that are still being written
+
+    const matches: ChatMessage[] = [];
+    for (const day of this.daysBetween(query.since, query.until).reverse()) {
+      const dayMatches = (await this.readDay(day)).filter(message => this.matches(message, query));
+      matches.push(...dayMatches.reverse());
+    }
+
+    const page = matches.slice(query.offset, query.offset + query.limit);
+    const nextOffset = query.offset + page.length < matches.length ? query.offset + page.length : null;
+    return { messages: page, total: matches.length, nextOffset };
+  }
+
+  /**
+   * Delete day files older than the retention period
+   */
+  async cleanup(): Promise<void> {
+    const cutoff = this.dayKey(new Date(Date.now() - this.config.retentionDays * DAY_MS));
+
+    try {
+      const files = await fs.readdir(this.config.dir);
+      for (const file of files) {
+        const match = file.match(FILE_PATTERN);
+        if (match && match[1] < cutoff) {
+          await fs.unlink(join(this.config.dir, file));
+        }
+      }
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code !== 'ENOENT') {
+        console.error('Error during chat history cleanup:', error);
+      }
+    }
+  }
+
+  private async write(message: ChatMessage): Promise<void> {
+    const day = this.dayKey(message.timestamp);
+    if (day !== this.currentDay) {
+      await fs.mkdir(this.config.dir, { recursive: true });
+      if (this.currentDay) {
+        await this.cleanup(); // once per day rollover
+      }
+      this.currentDay = day;
+    }
+
+    await fs.appendFile(this.fileFor(day), JSON.stringify(message) + '\n', 'utf-8');
+  }
+
+  private async readDay(day: string): Promise<ChatMessage[]> {
+    let contents: string;
+    try {
+      contents = await fs.readFile(this.fileFor(day), 'utf-8');
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === 'ENOENT') {
+        return [];
+      }
+      throw error;
+    }
+
+    const messages: ChatMessage[] = [];
+    for (const line of contents.split('\n')) {
+      if (!line.trim()) continue;
+      try {
+        const parsed = JSON.parse(line);
+        messages.push({ ...parsed, timestamp: new Date(parsed.timestamp) });
+      } catch {
+        // skip a line truncated by a crash mid-write
+      }
+    }
+    return messages;
+  }
+
+  private matches(message: ChatMessage, query: ChatSearchQuery): boolean {
+    const time = message.timestamp.getTime();
+    if (time < query.since.getTime() || time > query.until.getTime()) return false;
+    if (query.username && message.username.toLowerCase() !== query.username.toLowerCase()) return false;
+    if (query.userId && message.userId !== query.userId) return false;
+    if (query.text && !message.content.toLowerCase().includes(query.text.toLowerCase())) return false;
+    if (query.regex && !query.regex.test(message.content)) return false;
+
+    for (const flag of query.flags || []) {
+      const set = flag === 'broadcaster' ? message.isBroadcaster
+        : flag === 'mod' ? message.isMod
+        : flag === 'vip' ? message.isVip
+        : flag === 'subscriber' ? message.isSubscriber
+        : flag === 'firstMessage' ? message.firstMessage
+        : !!message.bits;
+      if (!set) return false;
+    }
+
+    return true;
+  }
+
+  private daysBetween(since: Date, until: Date): string[] {
+    const days: string[] = [];
+    const start = Date.UTC(since.getUTCFullYear(), since.getUTCMonth(), since.getUTCDate());
+    for (let time = start; time <= until.getTime(); time += DAY_MS) {
+      days.push(this.dayKey(new Date(time)));
+    }
+    return days;
+  }
+
+  private dayKey(date: Date): string {
+    return date.toISOString().split('T')[0];
+  }
+
+  private fileFor(day: string): string {
+    return join(this.config.dir, `chat-${day}.jsonl`);
+  }
+}
@@ -1,17 +1,33 @@
+import { randomUUID } from 'crypto';
 import { 
   ChatPattern, 
   ActionDecision, 
   AutonomousConfig, 
-  ChatAnalysisResult 
+  ChatAnalysisResult,
+  EscalationStep,
+  ResolvedTarget,
+  TargetResolver
 } from './autonomous-types';
 import { AIAnalysisFunction } from './pattern-analyzer';
+import { StrikeLedger } from './strike-ledger';
+import { UserProfileProvider, formatCompactProfile } from './user-profile';
+import { findMassSpam } from './chat-settings';
+import { ToolAvailabilityCheck } from './twitch-auth';
+import {
+  StructuredOutputParser,
+  ParseStats,
+  ActionSelectionResponseSchema,
+  ParameterGenerationResponseSchema
+} from './structured-output';
+
+export type RiskLevel = 'low' | 'medium' | 'high';
 
 // Available MCP tools and their parameters
 interface MCPTool {
   name: string;
   description: string;
   parameters: Record<string, { type: string; description: string; required?: boolean }>;
-  riskLevel: 'low' | 'medium' | 'high';
+  riskLevel: RiskLevel;
   cooldown?: number; // minutes
 }
 
@@ -24,6 +40,25 @@ const AVAILABLE_MCP_TOOLS: MCPTool[] = [
     },
     riskLevel: 'low'
   },
+  {
+    name: 'deleteChatMessage',
+    description: 'Delete a single chat message without punishing the sender',
+    parameters: {
+      usernameOrDescriptor: { type: 'string', description: 'Username whose message to delete', required: true },
+      messageId: { type: 'string', description: 'ID of the message to delete (filled in from the pattern when omitted)' }
+    },
+    riskLevel: 'low'
+  },
+  {
+    name: 'warnUser',
+    description: 'Formally warn a user; they must acknowledge the warning before chatting again',
+    parameters: {
+      usernameOrDescriptor: { type: 'string', description: 'Username to warn', required: true },
+      reason: { type: 'string', description: 'Reason for the warning, shown to the user', required: true }
+    },
+    riskLevel: 'medium',
+    cooldown: 1
+  },
   {
     name: 'timeoutUser',
     description: 'Timeout a user in the Twitch chat',
@@ -44,6 +79,43 @@ const AVAILABLE_MCP_TOOLS: MCPTool[] = [
     riskLevel: 'high',
     cooldown: 5
   },
+  {
+    name: 'getChatSettings',
+    description: 'Get the current chat modes',
+    parameters: {},
+    riskLevel: 'low'
+  },
+  {
+    name: 'updateChatSettings',
+    description: 'Temporarily change chat modes, e.g. slow mode to calm a flood of messages from many users',
+    parameters: {
+      slowModeSeconds: { type: 'number', description: 'Seconds between messages; turns slow mode on' },
+      followersOnlyMinutes: { type: 'number', description: 'Required follow age in minutes; turns followers-only mode on' },
+      subscribersOnly: { type: 'boolean', description: 'Turn subscriber-only mode on or off' },
+      emoteOnly: { type: 'boolean', description: 'Turn emote-only mode on or off' },
+      uniqueChat: { type: 'boolean', description: 'Turn unique chat mode on or off' },
+      revertAfterMinutes: { type: 'number', description: 'Minutes before the modes are restored' }
+    },
+    riskLevel: 'medium',
+    cooldown: 5
+  },
+  {
+    name: 'setShieldMode',
+    description: 'Turn Shield Mode on or off',
+    parameters: {
+      active: { type: 'boolean', description: 'true to turn Shield Mode on, false to turn it off', required: true }
+    },
+    riskLevel: 'medium'
+  },
+  {
+    name: 'resolveAutoModMessage',
+    description: 'Approve or deny a chat message held by AutoMod',
+    parameters: {
+      messageId: { type: 'string', description: 'ID of the held message', required: true },
+      action: { type: 'string', description: 'ALLOW or DENY', required: true }
+    },
+    riskLevel: 'medium'
+  },
   {
     name: 'createTwitchPoll',
     description: 'Create a poll for viewers to participate in',
@@ -93,6 +165,21 @@ const AVAILABLE_MCP_TOOLS: MCPTool[] = [
   }
 ];
 
+/**
+ * Risk level of an MCP tool; tools the engine doesn't know are treated as high risk
+ */
+export function getToolRiskLevel(toolName: string): RiskLevel {
+  return AVAILABLE_MCP_TOOLS.find(tool => tool.name === toolName)?.riskLevel || 'high';
+}
+
+// Tools that punish a user; their parameters are generated with the user's profile in the prompt
+const MODERATION_TOOLS = ['timeoutUser', 'banUser', 'warnUser'];
+
+// Moderation tools from mildest to harshest; timeouts of the same tool compare by duration
+const PUNISHMENT_ORDER: Record<string, number> = { warnUser: 0, timeoutUser: 1, banUser: 2 };
+
+const LADDER_TOOLS: Record<EscalationStep['action'], string> = { warn: 'warnUser', timeout: 'timeoutUser', ban: 'banUser' };
+
 const DECISION_PROMPTS = {
   actionSelection: (analysis: ChatAnalysisResult, availableTools: MCPTool[], config: AutonomousConfig) => `
 You are an autonomous Twitch chat management AI. Based on the chat analysis, decide what actions to take using available MCP tools.
@@ -127,12 +214,17 @@ CONFIGURATION:
 - Toxicity Detection: ${config.rules.toxicityDetection.enabled ? 'Enabled' : 'Disabled'} (Action: ${config.rules.toxicityDetection.action})
 - Chat Engagement: ${config.rules.chatEngagement.enabled ? 'Enabled' : 'Disabled'}
 - Poll Automation: ${config.rules.pollAutomation.enabled ? 'Enabled' : 'Disabled'}
+- Chat Modes: ${config.rules.chatModes?.enabled ? `Enabled (slow mode ${config.rules.chatModes.slowModeSeconds}s for ${config.rules.chatModes.revertAfterMinutes} min when ${config.rules.chatModes.massSpamUsers}+ users spam at once)` : 'Disabled'}
+- Strike Ladder: ${config.strikeLadder?.enabled ? 'Enabled (use timeoutUser for any punishment; the warn/timeout/ban step and duration are chosen from the user\'s strike history)' : 'Disabled'}
 
 DECISION CRITERIA:
 - Only take action if patterns have high confidence (>0.6) and appropriate severity
 - Prioritize moderation for toxicity/spam patterns
 - Consider engagement opportunities for positive interactions
 - Be conservative with high-risk actions (timeouts/bans)
+- Prefer deleteChatMessage for low-severity, one-off messages (e.g. a single link) instead of a timeout
+- Use warnUser when the configured rule action is "warn"
+- When many different users spam at once in a busy chat, prefer a timed updateChatSettings (slow mode) over timing each of them out
 - Don't create multiple polls/predictions in short succession
 - Match actions to pattern severity and configuration settings
 
@@ -146,7 +238,7 @@ Respond with JSON array of actions to take (can be empty if no action needed):
 }]
 `,
 
-  parameterGeneration: (action: string, pattern: ChatPattern, context: string) => `
+  parameterGeneration: (action: string, pattern: ChatPattern, context: string, userProfile?: string) => `
 You are generating parameters for the MCP tool "${action}" based on detected chat pattern.
 
 PATTERN DETAILS:
@@ -158,11 +250,17 @@ PATTERN DETAILS:
 - AI Suggestion: ${pattern.metadata?.recommendedAction || pattern.metadata?.suggestedResponse || 'N/A'}
 
 CONTEXT: ${context}
-
+${userProfile ? `
+USER PROFILE: ${userProfile}
+Weigh the user's history: be lenient with established chatters who have no strikes, and firm with new accounts or repeat offenders. Keep the same target user.
+` : ''}
 Generate appropriate parameters for the "${action}" action. Be specific and contextual.
 
 Examples:
 - For timeoutUser: Use specific username and clear reason
+- For warnUser: Use specific username and a short reason addressed to the user
+- For deleteChatMessage: Use the username of the message's author
+- For updateChatSettings: Use the mildest mode that helps, e.g. slowModeSeconds with a short revertAfterMinutes
 - For sendMessageToChat: Create engaging, relevant message that addresses the situation
 - For createTwitchPoll: Generate relevant poll based on context/conversation
 - For banUser: Only for severe violations, use specific username and detailed reason
@@ -173,39 +271,107 @@ Respond with JSON object containing the parameters:
 };
 
 export class AIDecisionEngine {
-  private aiAnalyze: AIAnalysisFunction;
+  private structuredOutput: StructuredOutputParser;
   private recentActions: Map<string, Date> = new Map(); // Track cooldowns
   private config: AutonomousConfig;
-
-  constructor(aiAnalyzeFunction: AIAnalysisFunction, config: AutonomousConfig) {
-    this.aiAnalyze = aiAnalyzeFunction;
+  private strikeLedger?: StrikeLedger;
+  private userProfileProvider?: UserProfileProvider;
+  private toolAvailability?: ToolAvailabilityCheck;
+  private targetResolver?: TargetResolver;
+
+  constructor(
+    aiAnalyzeFunction: AIAnalysisFunction,
+    config: AutonomousConfig,
+    strikeLedger?: StrikeLedger,
+    userProfileProvider?: UserProfileProvider,
+    toolAvailability?: ToolAvailabilityCheck,
+    targetResolver?: TargetResolver
+  ) {
+    this.structuredOutput = new StructuredOutputParser(aiAnalyzeFunction);
     this.config = config;
+    this.strikeLedger = strikeLedger;
+    this.userProfileProvider = userProfileProvider;
+    this.toolAvailability = toolAvailability;
+    this.targetResolver = targetResolver;
   }
 
   /**
    * Make autonomous decisions based on chat analysis
    */
   async makeDecisions(analysis: ChatAnalysisResult): Promise<ActionDecision[]> {
+    // Raids get a fixed response from the raidDefense rule instead of per-user decisions
+    const raidDecisions = this.raidDefenseDecisions(analysis);
+
     try {
       // Filter available tools based on cooldowns and config
       const availableTools = this.getAvailableTools();
       
       if (availableTools.length === 0) {
-        return []; // No tools available due to cooldowns
+        return raidDecisions; // No tools available due to cooldowns
       }
 
-      // Use AI to decide what actions to take
-      const decisions = await this.getAIDecisions(analysis, availableTools);
+      // Use AI to decide what actions to take, then pick punishments from the strike ladder
+      const decisions = await this.applyStrikeLadder(await this.getAIDecisions(analysis, availableTools));
       
       // Update cooldown tracking
       this.updateCooldowns(decisions);
       
-      return decisions;
+      return this.withRaidDecisions(decisions, raidDecisions);
 
     } catch (error) {
       console.error('Decision engine failed:', error);
-      return this.fallbackDecisions(analysis);
+      return this.withRaidDecisions(await this.applyStrikeLadder(this.fallbackDecisions(analysis)), raidDecisions);
+    }
+  }
+
+  /**
+   * Lock chat down for a detected raid or bot wave, as configured by the raidDefense rule
+   */
+  private raidDefenseDecisions(analysis: ChatAnalysisResult): ActionDecision[] {
+    const rule = this.config.rules.raidDefense;
+    if (!rule?.enabled) {
+      return [];
+    }
+
+    return analysis.patterns.filter(p => p.type === 'raid').map(pattern => ({
+      id: randomUUID(),
+      action: 'activateRaidDefense',
+      parameters: {
+        users: pattern.users.map((username, index) => ({
+          username,
+          ...(pattern.sourceMessages?.[index]?.userId ? { userId: pattern.sourceMessages[index].userId } : {})
+        })),
+        followersOnly: rule.followersOnly,
+        followersOnlyMinutes: rule.followersOnlyMinutes,
+        emoteOnly: rule.emoteOnly,
+        shieldMode: rule.shieldMode,
+        timeoutWave: rule.timeoutWave,
+        cooldownMinutes: rule.cooldownMinutes,
+        reason: pattern.metadata?.reason || 'Raid or bot wave detected'
+      },
+      reason: `${pattern.metadata?.reason || 'Raid or bot wave detected'} (lockdown for ${rule.cooldownMinutes} min)`,
+      confidence: pattern.confidence,
+      patterns: [pattern],
+      timestamp: new Date()
+    }));
+  }
+
+  /**
+   * Put raid decisions first and drop punishments for chatters the raid response already handles
+   */
+  private withRaidDecisions(decisions: ActionDecision[], raidDecisions: ActionDecision[]): ActionDecision[] {
+    if (raidDecisions.length === 0) {
+      return decisions;
     }
+
+    const waveUsers = new Set(raidDecisions.flatMap(d => d.patterns.flatMap(p => p.users.map(u => u.toLowerCase()))));
+    return [
+      ...raidDecisions,
+      ...decisions.filter(d =>
+        !MODERATION_TOOLS.includes(d.action) ||
+        !waveUsers.has(String(d.parameters.usernameOrDescriptor || '').replace(/^@/, '').toLowerCase())
+      )
+    ];
   }
 
   /**
@@ -213,17 +379,15 @@ export class AIDecisionEngine {
    */
   private async getAIDecisions(analysis: ChatAnalysisResult, availableTools: MCPTool[]): Promise<ActionDecision[]> {
     const prompt = DECISION_PROMPTS.actionSelection(analysis, availableTools, this.config);
-    const response = await this.aiAnalyze(prompt);
-    
-    let rawDecisions: any[];
-    try {
-      rawDecisions = JSON.parse(response);
-    } catch {
-      console.error('Failed to parse AI decision response');
-      return [];
-    }
+    const rawDecisions = await this.structuredOutput.request(prompt, ActionSelectionResponseSchema, {
+      promptType: 'actionSelection',
+      analysis,
+      config: this.config,
+      availableTools
+    });
 
-    if (!Array.isArray(rawDecisions)) {
+    if (!rawDecisions) {
+      console.error('Failed to parse AI decision response');
       return [];
     }
 
@@ -231,8 +395,6 @@ export class AIDecisionEngine {
     const decisions: ActionDecision[] = [];
     
     for (const decision of rawDecisions) {
-      if (!decision.action || !decision.reason) continue;
-
       // Find the matching pattern for this decision
       const targetPattern = analysis.patterns.find(p => 
         p.type === decision.targetPattern || 
@@ -246,18 +408,25 @@ export class AIDecisionEngine {
       }
 
       // Generate detailed parameters using AI if needed
-      let parameters = decision.parameters || {};
+      let parameters = decision.parameters;
       
       if (targetPattern && this.needsParameterGeneration(decision.action)) {
         const generatedParams = await this.generateParameters(
           decision.action, 
           targetPattern, 
-          this.getContextForPattern(targetPattern, analysis)
+          this.getContextForPattern(targetPattern, analysis),
+          await this.getUserProfile(decision.action, parameters, targetPattern)
         );
         parameters = { ...parameters, ...generatedParams };
+        if (MODERATION_TOOLS.includes(decision.action) && decision.parameters.usernameOrDescriptor) {
+          parameters.usernameOrDescriptor = decision.parameters.usernameOrDescriptor; // the profile was built for this user
+        }
       }
 
+      parameters = this.attachMessageReference(decision.action, parameters, targetPattern);
+
       decisions.push({
+        id: randomUUID(),
         action: decision.action,
         parameters,
         reason: decision.reason,
@@ -273,18 +442,54 @@ export class AIDecisionEngine {
   /**
    * Generate parameters for an action using AI
    */
-  private async generateParameters(action: string, pattern: ChatPattern, context: string): Promise<Record<string, any>> {
-    const prompt = DECISION_PROMPTS.parameterGeneration(action, pattern, context);
+  private async generateParameters(
+    action: string,
+    pattern: ChatPattern,
+    context: string,
+    userProfile?: string
+  ): Promise<Record<string, any>> {
+    const prompt = DECISION_PROMPTS.parameterGeneration(action, pattern, context, userProfile);
     
     try {
-      const response = await this.aiAnalyze(prompt);
-      return JSON.parse(response);
+      const parameters = await this.structuredOutput.request(prompt, ParameterGenerationResponseSchema, {
+        promptType: 'parameterGeneration',
+        action,
+        pattern
+      });
+      // Return fallback parameters if the response couldn't be repaired
+      return parameters || this.getFallbackParameters(action, pattern);
     } catch {
-      // Return fallback parameters
       return this.getFallbackParameters(action, pattern);
     }
   }
 
+  /**
+   * Compact profile of a moderation action's target, or undefined when none is available
+   */
+  private async getUserProfile(
+    action: string,
+    parameters: Record<string, any>,
+    pattern: ChatPattern
+  ): Promise<string | undefined> {
+    if (!this.userProfileProvider || !MODERATION_TOOLS.includes(action)) {
+      return undefined;
+    }
+
+    const username = String(parameters.usernameOrDescriptor || pattern.users[0] || '').replace(/^@/, '');
+    if (!username) {
+      return undefined;
+    }
+
+    const source = pattern.sourceMessages?.find(m => m.username.toLowerCase() === username.toLowerCase());
+    try {
+      const profile = await this.userProfileProvider(username, parameters.userId || source?.userId);
+      return profile ? formatCompactProfile(profile) : undefined;
+    } catch (error) {
+      console.error(`Failed to build user profile for ${username}:`, error);
+      return undefined;
+    }
+  }
+
   /**
    * Get fallback parameters if AI generation fails
    */
@@ -303,6 +508,16 @@ export class AIDecisionEngine {
           usernameOrDescriptor: user,
           reason: `Severe ${pattern.type} violation`
         };
+      case 'warnUser':
+        return {
+          usernameOrDescriptor: user,
+          reason: `Please avoid ${pattern.type} in chat`
+        };
+      case 'deleteChatMessage':
+        return {
+          usernameOrDescriptor: user,
+          ...(pattern.messageIds?.[0] ? { messageId: pattern.messageIds[0] } : {})
+        };
       case 'sendMessageToChat':
         if (pattern.type === 'question') {
           return { message: "Thanks for the question! Let me think about that..." };
@@ -310,6 +525,11 @@ export class AIDecisionEngine {
           return { message: "How's everyone doing? What would you like to see next?" };
         }
         return { message: "Thanks for being part of the chat!" };
+      case 'updateChatSettings':
+        return {
+          slowModeSeconds: this.config.rules.chatModes?.slowModeSeconds ?? 10,
+          revertAfterMinutes: this.config.rules.chatModes?.revertAfterMinutes ?? 10
+        };
       case 'createTwitchPoll':
         return {
           title: "What should we do next?",
@@ -321,11 +541,113 @@ export class AIDecisionEngine {
     }
   }
 
+  /**
+   * Point moderation parameters at the exact user and message from the pattern, so the
+   * executor doesn't have to resolve the target from a username
+   */
+  private attachMessageReference(
+    action: string,
+    parameters: Record<string, any>,
+    pattern?: ChatPattern
+  ): Record<string, any> {
+    if (!pattern?.sourceMessages || !['timeoutUser', 'banUser', 'warnUser', 'deleteChatMessage'].includes(action)) {
+      return parameters;
+    }
+
+    const target = String(parameters.usernameOrDescriptor || '').toLowerCase();
+    const source = pattern.sourceMessages.find(m => m.username.toLowerCase() === target);
+    if (!source) {
+      return parameters;
+    }
+
+    return {
+      ...parameters,
+      ...(source.userId ? { userId: source.userId } : {}),
+      ...(source.id ? { messageId: source.id } : {})
+    };
+  }
+
+  /**
+   * Raise the punishment in moderation decisions to at least the user's next strike ladder step;
+   * a harsher action or longer timeout chosen by the rules is kept. Strikes are looked up under the
+   * login the target resolves to, which is the one they're recorded under.
+   * Only the first punishment per user in a cycle is kept, since they all share one step.
+   */
+  private async applyStrikeLadder(decisions: ActionDecision[]): Promise<ActionDecision[]> {
+    if (!this.strikeLedger || !this.config.strikeLadder?.enabled) {
+      return decisions;
+    }
+
+    const punishedUsers = new Set<string>();
+    const result: ActionDecision[] = [];
+
+    for (const decision of decisions) {
+      const descriptor = String(decision.parameters.usernameOrDescriptor || '');
+      if (!MODERATION_TOOLS.includes(decision.action) || !descriptor) {
+        result.push(decision);
+        continue;
+      }
+
+      const target = await this.resolveTarget(decision);
+      const user = target?.username || descriptor;
+      if (punishedUsers.has(user.toLowerCase())) {
+        continue;
+      }
+      punishedUsers.add(user.toLowerCase());
+
+      // Pin the resolved user, so the punishment hits the user whose strikes picked it
+      const parameters: Record<string, any> = target?.userId
+        ? { ...decision.parameters, usernameOrDescriptor: target.username, userId: target.userId }
+        : { ...decision.parameters };
+      delete parameters.duration;
+
+      const strikeCount = this.strikeLedger.getActiveStrikes(user).length;
+      const step = this.strikeLedger.getNextStep(user);
+      const stepAction = LADDER_TOOLS[step.action];
+      const ruleOrder = PUNISHMENT_ORDER[decision.action];
+      const stepOrder = PUNISHMENT_ORDER[stepAction];
+      const action = ruleOrder > stepOrder ? decision.action : stepAction;
+
+      let duration: number | undefined;
+      if (action === 'timeoutUser') {
+        const ruleDuration = decision.action === 'timeoutUser' ? Number(decision.parameters.duration) || 0 : 0;
+        const stepDuration = stepAction === 'timeoutUser' ? step.duration || 0 : 0;
+        duration = Math.max(ruleDuration, stepDuration) || undefined;
+      }
+
+      const label = action === 'banUser' ? 'ban' : action === 'warnUser' ? 'warn' : 'timeout';
+      result.push({
+        ...decision,
+        action,
+        parameters: duration ? { ...parameters, duration } : parameters,
+        reason: `${decision.reason} (strike ${strikeCount + 1}: ${label}${duration ? ` ${duration}s` : ''})`
+      });
+    }
+
+    return result;
+  }
+
+  /**
+   * Who a moderation decision would hit, or null when it can't be resolved
+   */
+  private async resolveTarget(decision: ActionDecision): Promise<ResolvedTarget | null> {
+    if (!this.targetResolver) {
+      return null;
+    }
+
+    try {
+      return await this.targetResolver(decision.action, decision.parameters);
+    } catch (error) {
+      console.error(`Failed to resolve the target of ${decision.action}:`, error);
+      return null;
+    }
+  }
+
   /**
    * Check if an action needs AI parameter generation
    */
   private needsParameterGeneration(action: string): boolean {
-    return ['sendMessageToChat', 'createTwitchPoll', 'createTwitchPrediction', 'updateStreamTitle'].includes(action);
+    return ['sendMessageToChat', 'createTwitchPoll', 'createTwitchPrediction', 'updateStreamTitle', 'updateChatSettings', ...MODERATION_TOOLS].includes(action);
   }
 
   /**
@@ -347,7 +669,7 @@ export class AIDecisionEngine {
   }
 
   /**
-   * Get tools that are available (not on cooldown)
+   * Get tools that are available (not on cooldown, allowed by the token's scopes)
    */
   private getAvailableTools(): MCPTool[] {
     const now = new Date();
@@ -359,12 +681,25 @@ export class AIDecisionEngine {
       const cooldownMs = tool.cooldown * 60 * 1000;
       return (now.getTime() - lastUsed.getTime()) >= cooldownMs;
     }).filter(tool => {
+      // Tools the token lacks scopes for would only fail
+      if (this.toolAvailability?.(tool.name)) return false;
+
       // Filter based on configuration
       if (tool.riskLevel === 'high' && !this.config.enabled) return false;
       
-      if (tool.name === 'timeoutUser' || tool.name === 'banUser') {
+      if (['timeoutUser', 'banUser', 'warnUser', 'deleteChatMessage'].includes(tool.name)) {
         return this.config.rules.spamDetection.enabled || this.config.rules.toxicityDetection.enabled;
       }
+
+      if (tool.name === 'updateChatSettings') {
+        return !!this.config.rules.chatModes?.enabled;
+      }
+
+      // Held messages never reach the analysis; the autoModApproval policy resolves them.
+      // Shield Mode is switched by the shieldMode rule, which also turns it off again.
+      if (tool.name === 'resolveAutoModMessage' || tool.name === 'setShieldMode') {
+        return false;
+      }
       
       if (tool.name === 'createTwitchPoll') {
         return this.config.rules.pollAutomation.enabled;
@@ -395,16 +730,35 @@ export class AIDecisionEngine {
     const decisions: ActionDecision[] = [];
     const now = new Date();
 
+    // Many spammers at once get one timed slow mode instead of a timeout each
+    const massSpam = this.config.rules.spamDetection.enabled ? findMassSpam(analysis.patterns, this.config.rules.chatModes) : null;
+    if (massSpam) {
+      const chatModes = this.config.rules.chatModes!;
+      decisions.push({
+        id: randomUUID(),
+        action: 'updateChatSettings',
+        parameters: { slowModeSeconds: chatModes.slowModeSeconds, revertAfterMinutes: chatModes.revertAfterMinutes },
+        reason: `Fallback slow mode for spam from ${new Set(massSpam.flatMap(p => p.users)).size} users`,
+        confidence: 0.6,
+        patterns: massSpam,
+        timestamp: now
+      });
+    }
+
     // Simple rule-based fallback
     for (const pattern of analysis.patterns) {
-      if (pattern.confidence < 0.7) continue;
+      if (pattern.confidence < 0.7 || massSpam?.includes(pattern)) continue;
 
       if (pattern.type === 'toxicity' && pattern.severity >= 7 && this.config.rules.toxicityDetection.enabled) {
         decisions.push({
-          action: this.config.rules.toxicityDetection.action === 'ban' ? 'banUser' : 'timeoutUser',
+          id: randomUUID(),
+          action: this.ruleActionTool(this.config.rules.toxicityDetection.action),
           parameters: {
             usernameOrDescriptor: pattern.users[0] || 'unknown',
-            reason: 'Toxic behavior detected'
+            reason: 'Toxic behavior detected',
+            ...(this.config.rules.toxicityDetection.duration ? { duration: this.config.rules.toxicityDetection.duration } : {}),
+            ...(pattern.userIds?.[0] ? { userId: pattern.userIds[0] } : {}),
+            ...(pattern.messageIds?.[0] ? { messageId: pattern.messageIds[0] } : {})
           },
           reason: `Fallback action for high toxicity (${pattern.severity}/10)`,
           confidence: 0.6,
@@ -413,22 +767,47 @@ export class AIDecisionEngine {
         });
       } else if (pattern.type === 'spam' && pattern.severity >= 6 && this.config.rules.spamDetection.enabled) {
         decisions.push({
-          action: 'timeoutUser',
+          id: randomUUID(),
+          action: this.ruleActionTool(this.config.rules.spamDetection.action),
           parameters: {
             usernameOrDescriptor: pattern.users[0] || 'unknown',
-            reason: 'Spam detected'
+            reason: 'Spam detected',
+            ...(this.config.rules.spamDetection.duration ? { duration: this.config.rules.spamDetection.duration } : {}),
+            ...(pattern.userIds?.[0] ? { userId: pattern.userIds[0] } : {}),
+            ...(pattern.messageIds?.[0] ? { messageId: pattern.messageIds[0] } : {})
           },
           reason: `Fallback action for spam (${pattern.severity}/10)`,
           confidence: 0.6,
           patterns: [pattern],
           timestamp: now
         });
+      } else if (pattern.type === 'spam' && pattern.severity >= 4 && pattern.messageIds?.[0] && this.config.rules.spamDetection.enabled) {
+        // Low-severity spam: remove the message without punishing the sender
+        decisions.push({
+          id: randomUUID(),
+          action: 'deleteChatMessage',
+          parameters: {
+            usernameOrDescriptor: pattern.users[0] || 'unknown',
+            messageId: pattern.messageIds[0]
+          },
+          reason: `Fallback delete for low-severity spam (${pattern.severity}/10)`,
+          confidence: 0.6,
+          patterns: [pattern],
+          timestamp: now
+        });
       }
     }
 
     return decisions;
   }
 
+  /**
+   * MCP tool for a rule's configured action
+   */
+  private ruleActionTool(action: 'timeout' | 'ban' | 'warn'): string {
+    return action === 'ban' ? 'banUser' : action === 'warn' ? 'warnUser' : 'timeoutUser';
+  }
+
   /**
    * Update configuration
    */
@@ -436,6 +815,13 @@ export class AIDecisionEngine {
     this.config = newConfig;
   }
 
+  /**
+   * Get parse failure counts per prompt type
+   */
+  getParseStats(): Record<string, ParseStats> {
+    return this.structuredOutput.getStats();
+  }
+
   /**
    * Get current cooldown status
    */
@@ -0,0 +1,311 @@
+import WebSocket from 'ws';
+import {
+  StreamEvent,
+  StreamEventType,
+  EVENTSUB_SUBSCRIPTIONS,
+  normalizeEventSubEvent
+} from './stream-events';
+import { HelixEventSubSubscriptionRequest } from './helix-client';
+
+interface EventSubClientConfig {
+  url: string; // wss://eventsub.wss.twitch.tv/ws, or a local stand-in
+  broadcasterId: string;
+  events: StreamEventType[];
+}
+
+// Helix POST /eventsub/subscriptions, used to create subscriptions for the session
+interface SubscriptionCreator {
+  (subscription: HelixEventSubSubscriptionRequest): Promise<unknown>;
+}
+
+interface StreamEventHandler {
+  (event: StreamEvent): void;
+}
+
+export interface EventSubSubscriptionStatus {
+  event: StreamEventType;
+  status: 'pending' | 'enabled' | 'failed' | 'revoked';
+  error?: string;
+}
+
+export interface EventSubStatus {
+  connected: boolean;
+  sessionId: string | null;
+  subscriptions: EventSubSubscriptionStatus[];
+  eventsReceived: number;
+  reconnects: number;
+  lastMessageAt: Date | null;
+}
+
+const KEEPALIVE_GRACE_MS = 5000;
+const MAX_RECONNECT_DELAY_MS = 60000;
+const SEEN_MESSAGE_IDS = 200;
+
+/**
+ * EventSub WebSocket client: keeps a session open, subscribes to the configured
+ * events and passes each notification on as a typed stream event
+ */
+export class EventSubClient {
+  private config: EventSubClientConfig;
+  private createSubscription: SubscriptionCreator;
+  private onEvent: StreamEventHandler;
+
+  private socket: WebSocket | null = null;
+  private migratingSocket: WebSocket | null = null; // opened on session_reconnect, replaces socket once welcomed
+  private sessionId: string | null = null;
+  private keepaliveTimer: NodeJS.Timeout | null = null;
+  private keepaliveTimeoutMs = 0;
+  private reconnectTimer: NodeJS.Timeout | null = null;
+  private reconnectAttempts = 0;
+  private seenMessageIds: string[] = [];
+  private subscriptions: EventSubSubscriptionStatus[] = [];
+  private eventsReceived = 0;
+  private reconnects = 0;
+  private lastMessageAt: Date | null = null;
+  private running = false;
+
+  constructor(config: EventSubClientConfig, createSubscription: SubscriptionCreator, onEvent: StreamEventHandler) {
+    this.config = config;
+    this.createSubscription = createSubscription;
+    this.onEvent = onEvent;
+  }
+
+  /**
+   * Open the session; subscriptions are created once Twitch sends the welcome message
+   */
+  start(): void {
+    if (this.running) {
+      return;
+    }
+
+    this.running = true;
+    this.reconnectAttempts = 0;
+    this.socket = this.openSocket(this.config.url, false);
+  }
+
+  /**
+   * Close the session; its subscriptions are removed by Twitch
+   */
+  stop(): void {
+    this.running = false;
+    this.clearTimers();
+    this.migratingSocket?.close();
+    this.socket?.close();
+    this.migratingSocket = null;
+    this.socket = null;
+    this.sessionId = null;
+  }
+
+  getStatus(): EventSubStatus {
+    return {
+      connected: this.sessionId !== null,
+      sessionId: this.sessionId,
+      subscriptions: this.subscriptions.map(s => ({ ...s })),
+      eventsReceived: this.eventsReceived,
+      reconnects: this.reconnects,
+      lastMessageAt: this.lastMessageAt
+    };
+  }
+
+  private openSocket(url: string, migrating: boolean): WebSocket {
+    const socket = new WebSocket(url);
+
+    socket.on('message', data => this.handleMessage(socket, data.toString(), migrating));
+    socket.on('close', (code, reason) => this.handleClose(socket, code, reason.toString()));
+    socket.on('error', error => console.error('EventSub socket error:', error.message));
+
+    return socket;
+  }
+
+  private handleMessage(socket: WebSocket, raw: string, migrating: boolean): void {
+    if (socket !== this.socket && socket !== this.migratingSocket) {
+      return; // a replaced socket that hasn't finished closing
+    }
+
+    let message: { metadata?: Record<string, any>; payload?: Record<string, any> };
+    try {
+      message = JSON.parse(raw);
+    } catch {
+      console.error('EventSub sent a message that is not JSON');
+      return;
+    }
+
+    const metadata = message.metadata || {};
+    const payload = message.payload || {};
+    this.lastMessageAt = new Date();
+
+    if (metadata.message_id) {
+      if (this.seenMessageIds.includes(metadata.message_id)) {
+        return; // Twitch may deliver a message more than once
+      }
+      this.seenMessageIds.push(metadata.message_id);
+      if (this.seenMessageIds.length > SEEN_MESSAGE_IDS) {
+        this.seenMessageIds.shift();
+      }
+    }
+
+    switch (metadata.message_type) {
+      case 'session_welcome':
+        this.handleWelcome(socket, payload.session || {}, migrating);
+        break;
+
+      case 'session_keepalive':
+        this.resetKeepalive();
+        break;
+
+      case 'notification': {
+        this.resetKeepalive();
+        const subscriptionType = payload.subscription?.type || metadata.subscription_type;
+        const timestamp = metadata.message_timestamp ? new Date(metadata.message_timestamp) : new Date();
+        const event = normalizeEventSubEvent(subscriptionType, payload.event || {}, metadata.message_id || '', timestamp);
+        if (event) {
+          this.eventsReceived++;
+          try {
+            this.onEvent(event);
+          } catch (error) {
+            console.error('Stream event handler failed:', error);
+          }
+        }
+        break;
+      }
+
+      case 'session_reconnect':
+        // Twitch is moving the session; subscriptions carry over to the new connection
+        if (payload.session?.reconnect_url) {
+          this.migratingSocket?.close();
+          this.migratingSocket = this.openSocket(payload.session.reconnect_url, true);
+        }
+        break;
+
+      case 'revocation': {
+        const type = payload.subscription?.type;
+        const entry = this.subscriptions.find(s => EVENTSUB_SUBSCRIPTIONS[s.event].type === type);
+        if (entry) {
+          entry.status = 'revoked';
+          entry.error = payload.subscription?.status;
+        }
+        console.warn(`EventSub subscription ${type} was revoked: ${payload.subscription?.status}`);
+        break;
+      }
+    }
+  }
+
+  private handleWelcome(socket: WebSocket, session: Record<string, any>, migrating: boolean): void {
+    this.sessionId = session.id || null;
+    this.keepaliveTimeoutMs = (Number(session.keepalive_timeout_seconds) || 10) * 1000 + KEEPALIVE_GRACE_MS;
+    this.reconnectAttempts = 0;
+
+    if (migrating) {
+      const previous = this.socket;
+      this.socket = socket;
+      this.migratingSocket = null;
+      previous?.close();
+      this.reconnects++;
+    }
+
+    this.resetKeepalive();
+
+    if (!migrating) {
+      this.subscribeAll().catch(error => console.error('Failed to create EventSub subscriptions:', error));
+    }
+  }
+
+  /**
+   * Create one subscription per configured event for the current session
+   */
+  private async subscribeAll(): Promise<void> {
+    const sessionId = this.sessionId;
+    this.subscriptions = this.config.events.map(event => ({ event, status: 'pending' }));
+
+    for (const entry of this.subscriptions) {
+      const { type, version } = EVENTSUB_SUBSCRIPTIONS[entry.event];
+      try {
+        await this.createSubscription({
+          type,
+          version,
+          condition: this.conditionFor(entry.event),
+          transport: { method: 'websocket', session_id: sessionId! }
+        });
+        entry.status = 'enabled';
+      } catch (error) {
+        entry.status = 'failed';
+        entry.error = (error as { message?: string }).message || 'Unknown error';
+        console.error(`EventSub subscription ${type} failed: ${entry.error}`);
+      }
+    }
+
+    // Twitch closes sessions without subscriptions, so don't reconnect into the same failure
+    if (this.subscriptions.length > 0 && this.subscriptions.every(s => s.status === 'failed')) {
+      console.error('No EventSub subscriptions could be created; stopping the EventSub client');
+      this.stop();
+    }
+  }
+
+  private conditionFor(event: StreamEventType): Record<string, string> {
+    switch (event) {
+      case 'raid':
+        return { to_broadcaster_user_id: this.config.broadcasterId };
+      case 'follow':
+      case 'automodHold':
+      case 'automodUpdate':
+        return { broadcaster_user_id: this.config.broadcasterId, moderator_user_id: this.config.broadcasterId };
+      default:
+        return { broadcaster_user_id: this.config.broadcasterId };
+    }
+  }
+
+  private handleClose(socket: WebSocket, code: number, reason: string): void {
+    if (socket === this.migratingSocket) {
+      this.migratingSocket = null; // the old connection stays in use until Twitch closes it
+      return;
+    }
+    if (socket !== this.socket || !this.running) {
+      return;
+    }
+
+    console.warn(`EventSub connection closed (${code}${reason ? `: ${reason}` : ''}), reconnecting`);
+    this.socket = null;
+    this.sessionId = null;
+    this.scheduleReconnect();
+  }
+
+  /**
+   * Start a fresh session with exponential backoff; subscriptions are recreated on welcome
+   */
+  private scheduleReconnect(): void {
+    this.clearTimers();
+
+    const delay = Math.min(1000 * 2 ** this.reconnectAttempts, MAX_RECONNECT_DELAY_MS);
+    this.reconnectAttempts++;
+    this.reconnectTimer = setTimeout(() => {
+      this.reconnectTimer = null;
+      if (this.running) {
+        this.reconnects++;
+        this.socket = this.openSocket(this.config.url, false);
+      }
+    }, delay);
+  }
+
+  private resetKeepalive(): void {
+    if (this.keepaliveTimer) {
+      clearTimeout(this.keepaliveTimer);
+    }
+
+    const socket = this.socket;
+    this.keepaliveTimer = setTimeout(() => {
+      console.warn('EventSub keepalive timed out');
+      socket?.terminate(); // handled as a close, which reconnects
+    }, this.keepaliveTimeoutMs);
+  }
+
+  private clearTimers(): void {
+    if (this.keepaliveTimer) {
+      clearTimeout(this.keepaliveTimer);
+      this.keepaliveTimer = null;
+    }
+    if (this.reconnectTimer) {
+      clearTimeout(this.reconnectTimer);
+      this.reconnectTimer = null;
+    }
+  }
+}
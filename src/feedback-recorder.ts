@@ -4,7 +4,10 @@ import {
   FeedbackEntry, 
   ActionDecision, 
   AutonomousState,
-  ChatPattern 
+  ChatPattern,
+  ResolvedTarget,
+  ModeratorAction,
+  ShadowAgreement
 } from './autonomous-types';
 
 interface FeedbackRecorderConfig {
@@ -13,9 +16,15 @@ interface FeedbackRecorderConfig {
   retentionDays: number;
 }
 
+// Shadow decisions that have a human moderator counterpart, and how far apart the two may be
+const COMPARABLE_ACTIONS = ['timeoutUser', 'banUser', 'deleteChatMessage'];
+const SHADOW_MATCH_WINDOW_MS = 10 * 60 * 1000;
+const MODERATOR_ACTION_RETENTION_MS = 7 * 24 * 60 * 60 * 1000;
+
 export class FeedbackRecorder {
   private config: FeedbackRecorderConfig;
   private recentFeedback: FeedbackEntry[] = [];
+  private moderatorActions: ModeratorAction[] = [];
 
   constructor(config: FeedbackRecorderConfig) {
     this.config = config;
@@ -25,10 +34,16 @@ export class FeedbackRecorder {
   /**
    * Record an action taken by the autonomous agent
    */
-  async recordAction(decision: ActionDecision): Promise<void> {
+  async recordAction(
+    decision: ActionDecision,
+    options: { shadow?: boolean; resolvedTarget?: ResolvedTarget } = {}
+  ): Promise<void> {
     const entry: FeedbackEntry = {
+      id: decision.id,
       timestamp: decision.timestamp,
       actionTaken: decision,
+      ...(options.shadow ? { shadow: true } : {}),
+      ...(options.resolvedTarget ? { resolvedTarget: options.resolvedTarget } : {})
       // userFeedback and outcome will be added later
     };
 
@@ -36,21 +51,19 @@ export class FeedbackRecorder {
     await this.saveFeedbackEntry(entry);
 
     // Also log to daily action log
-    await this.appendToActionLog(decision);
+    await this.appendToActionLog(decision, options.shadow);
   }
 
   /**
    * Add user feedback to an existing action
    */
   async addUserFeedback(
-    actionTimestamp: Date, 
+    actionId: string,
     rating: 1 | 2 | 3 | 4 | 5,
     comment?: string,
     source: 'chat' | 'manual' | 'streamer' = 'chat'
   ): Promise<boolean> {
-    const entry = this.recentFeedback.find(e => 
-      Math.abs(e.timestamp.getTime() - actionTimestamp.getTime()) < 60000 // within 1 minute
-    );
+    const entry = this.findEntry(actionId);
 
     if (entry) {
       entry.userFeedback = { rating, comment, source };
@@ -68,14 +81,12 @@ export class FeedbackRecorder {
    * Record the outcome of an action (effectiveness, side effects)
    */
   async recordOutcome(
-    actionTimestamp: Date,
+    actionId: string,
     effective: boolean,
     chatResponse?: string,
     sideEffects?: string[]
   ): Promise<boolean> {
-    const entry = this.recentFeedback.find(e => 
-      Math.abs(e.timestamp.getTime() - actionTimestamp.getTime()) < 60000
-    );
+    const entry = this.findEntry(actionId);
 
     if (entry) {
       entry.outcome = { effective, chatResponse, sideEffects };
@@ -86,6 +97,73 @@ export class FeedbackRecorder {
     return false;
   }
 
+  /**
+   * Record a timeout, ban or deletion by a human moderator, to compare shadow decisions against
+   */
+  async recordModeratorAction(action: ModeratorAction): Promise<void> {
+    const cutoff = Date.now() - MODERATOR_ACTION_RETENTION_MS;
+    this.moderatorActions = this.moderatorActions.filter(a => a.timestamp.getTime() >= cutoff);
+    this.moderatorActions.push(action);
+
+    await this.appendToModeratorLog(action);
+  }
+
+  /**
+   * Compare shadow timeouts, bans and deletions with moderator actions on the same user or message
+   * within SHADOW_MATCH_WINDOW_MS of each other
+   */
+  getShadowAgreement(hours: number = 168): ShadowAgreement {
+    const cutoff = Date.now() - hours * 60 * 60 * 1000;
+    const decisions = this.recentFeedback.filter(e =>
+      e.shadow && e.resolvedTarget && COMPARABLE_ACTIONS.includes(e.actionTaken.action) && e.timestamp.getTime() >= cutoff
+    );
+    const actions = this.moderatorActions.filter(a => a.timestamp.getTime() >= cutoff);
+
+    const matchedActions = new Set<ModeratorAction>();
+    let matched = 0;
+    for (const entry of decisions) {
+      const target = entry.resolvedTarget!;
+      const counterparts = actions.filter(a =>
+        Math.abs(a.timestamp.getTime() - entry.timestamp.getTime()) <= SHADOW_MATCH_WINDOW_MS &&
+        ((target.userId && a.userId === target.userId) ||
+          (target.messageId && a.messageId === target.messageId) ||
+          a.username.toLowerCase() === target.username.toLowerCase())
+      );
+      if (counterparts.length > 0) {
+        matched++;
+        counterparts.forEach(a => matchedActions.add(a));
+      }
+    }
+
+    return {
+      matched,
+      agentOnly: decisions.length - matched,
+      moderatorOnly: actions.length - matchedActions.size
+    };
+  }
+
+  /**
+   * Find a recorded action by its id
+   */
+  findEntry(actionId: string): FeedbackEntry | undefined {
+    return this.recentFeedback.find(entry => entry.id === actionId);
+  }
+
+  /**
+   * Recorded actions that targeted a user, oldest first
+   */
+  getEntriesForUser(username: string, userId?: string): FeedbackEntry[] {
+    const lowered = username.toLowerCase();
+
+    return this.recentFeedback.filter(entry => {
+      const parameters = entry.actionTaken.parameters;
+      const target = entry.resolvedTarget;
+      return (userId && (parameters.userId === userId || target?.userId === userId)) ||
+        String(parameters.usernameOrDescriptor || '').replace(/^@/, '').toLowerCase() === lowered ||
+        target?.username.toLowerCase() === lowered;
+    });
+  }
+
   /**
    * Generate daily performance report
    */
@@ -138,8 +216,13 @@ export class FeedbackRecorder {
     averageRating: number;
     mostSuccessfulActions: string[];
     leastSuccessfulActions: string[];
+    shadowActions: number;
+    shadowAverageRating: number;
+    shadowAgreement: ShadowAgreement;
   }> {
-    const recentEntries = this.getRecentFeedback(168); // Last week
+    const weekEntries = this.getRecentFeedback(168); // Last week
+    const recentEntries = weekEntries.filter(e => !e.shadow);
+    const shadowWithFeedback = weekEntries.filter(e => e.shadow && e.userFeedback);
     
     const actionsWithFeedback = recentEntries.filter(e => e.userFeedback);
     const totalActions = recentEntries.length;
@@ -177,7 +260,12 @@ export class FeedbackRecorder {
       successRate,
       averageRating,
       mostSuccessfulActions: sortedActions.slice(0, 3).map(a => a.action),
-      leastSuccessfulActions: sortedActions.slice(-3).map(a => a.action)
+      leastSuccessfulActions: sortedActions.slice(-3).map(a => a.action),
+      shadowActions: weekEntries.length - recentEntries.length,
+      shadowAverageRating: shadowWithFeedback.length > 0
+        ? shadowWithFeedback.reduce((sum, e) => sum + e.userFeedback!.rating, 0) / shadowWithFeedback.length
+        : 0,
+      shadowAgreement: this.getShadowAgreement(168)
     };
   }
 
@@ -211,13 +299,14 @@ export class FeedbackRecorder {
     await this.saveFeedbackEntry(entry);
   }
 
-  private async appendToActionLog(decision: ActionDecision): Promise<void> {
+  private async appendToActionLog(decision: ActionDecision, shadow?: boolean): Promise<void> {
     const dateStr = decision.timestamp.toISOString().split('T')[0];
     const filename = `actions-${dateStr}.md`;
     const filepath = join(this.config.feedbackDir, filename);
     
     const timeStr = decision.timestamp.toISOString().split('T')[1].split('.')[0];
-    const logEntry = `### ${timeStr} - ${decision.action}\n\n` +
+    const logEntry = `### ${timeStr} - ${decision.action}${shadow ? ' (shadow, not executed)' : ''}\n\n` +
+      `**Id:** \`${decision.id}\`\n\n` +
       `**Reason:** ${decision.reason}\n\n` +
       `**Confidence:** ${decision.confidence}\n\n` +
       `**Parameters:** \`${JSON.stringify(decision.parameters)}\`\n\n` +
@@ -230,6 +319,22 @@ export class FeedbackRecorder {
     }
   }
 
+  private async appendToModeratorLog(action: ModeratorAction): Promise<void> {
+    const dateStr = action.timestamp.toISOString().split('T')[0];
+    const filepath = join(this.config.feedbackDir, `moderators-${dateStr}.md`);
+
+    const timeStr = action.timestamp.toISOString().split('T')[1].split('.')[0];
+    const logEntry = `### ${timeStr} - ${action.action} ${action.username}${action.userId ? ` (${action.userId})` : ''}\n\n` +
+      (action.duration ? `**Duration:** ${action.duration}s\n\n` : '') +
+      (action.messageId ? `**Message:** \`${action.messageId}\`\n\n` : '');
+
+    try {
+      await fs.appendFile(filepath, logEntry, 'utf-8');
+    } catch (error) {
+      console.error('Failed to append to moderator log:', error);
+    }
+  }
+
   private async appendToFeedbackLog(entry: FeedbackEntry): Promise<void> {
     const dateStr = entry.timestamp.toISOString().split('T')[0];
     const filename = `user-feedback-${dateStr}.md`;
@@ -252,18 +357,33 @@ export class FeedbackRecorder {
   private formatFeedbackEntry(entry: FeedbackEntry): string {
     const timeStr = entry.timestamp.toISOString().replace('T', ' ').split('.')[0];
     
-    let markdown = `## Action Taken: ${entry.actionTaken.action}\n\n`;
+    let markdown = entry.shadow
+      ? `## Shadow Action: ${entry.actionTaken.action} (not executed)\n\n`
+      : `## Action Taken: ${entry.actionTaken.action}\n\n`;
     markdown += `**Timestamp:** ${timeStr}\n\n`;
     markdown += `**Reason:** ${entry.actionTaken.reason}\n\n`;
     markdown += `**Confidence:** ${entry.actionTaken.confidence}\n\n`;
     markdown += `**Parameters:**\n\`\`\`json\n${JSON.stringify(entry.actionTaken.parameters, null, 2)}\n\`\`\`\n\n`;
+    if (entry.resolvedTarget) {
+      markdown += `**Resolved Target:** ${entry.resolvedTarget.username}`;
+      markdown += entry.resolvedTarget.userId ? ` (User ID: ${entry.resolvedTarget.userId})` : '';
+      markdown += entry.resolvedTarget.messageId ? `, Message ID: ${entry.resolvedTarget.messageId}` : '';
+      markdown += entry.resolvedTarget.protection ? ` - would be blocked (protected ${entry.resolvedTarget.protection})` : '';
+      markdown += '\n\n';
+    }
     
     if (entry.actionTaken.patterns.length > 0) {
       markdown += `**Patterns Detected:**\n`;
       for (const pattern of entry.actionTaken.patterns) {
         markdown += `- **${pattern.type}** (Severity: ${pattern.severity}/10, Confidence: ${pattern.confidence})\n`;
         markdown += `  - Users: ${pattern.users.join(', ')}\n`;
+        if (pattern.userIds && pattern.userIds.length > 0) {
+          markdown += `  - User IDs: ${pattern.userIds.join(', ')}\n`;
+        }
         markdown += `  - Messages: ${pattern.messages.join(' | ')}\n`;
+        if (pattern.messageIds && pattern.messageIds.length > 0) {
+          markdown += `  - Message IDs: ${pattern.messageIds.join(', ')}\n`;
+        }
         if (pattern.metadata?.reason) {
           markdown += `  - AI Analysis: ${pattern.metadata.reason}\n`;
         }
@@ -310,7 +430,10 @@ export class FeedbackRecorder {
     return [];
   }
 
-  private buildDailyReport(entries: FeedbackEntry[], dateStr: string): string {
+  private buildDailyReport(allEntries: FeedbackEntry[], dateStr: string): string {
+    // Shadow decisions are reported separately so they don't count as actions taken
+    const entries = allEntries.filter(e => !e.shadow);
+    const shadowEntries = allEntries.filter(e => e.shadow);
     const totalActions = entries.length;
     const entriesWithFeedback = entries.filter(e => e.userFeedback);
     const entriesWithOutcome = entries.filter(e => e.outcome);
@@ -334,7 +457,13 @@ export class FeedbackRecorder {
     report += `- **Total Actions:** ${totalActions}\n`;
     report += `- **Actions with Feedback:** ${entriesWithFeedback.length}\n`;
     report += `- **Average Rating:** ${averageRating.toFixed(1)}/5 ⭐\n`;
-    report += `- **Success Rate:** ${(successRate * 100).toFixed(1)}%\n\n`;
+    report += `- **Success Rate:** ${(successRate * 100).toFixed(1)}%\n`;
+    if (shadowEntries.length > 0) {
+      const agreement = this.getShadowAgreement(24);
+      report += `- **Shadow Decisions (not executed):** ${shadowEntries.length}\n`;
+      report += `- **Shadow vs Moderators (24h):** ${agreement.matched} matched, ${agreement.agentOnly} agent only, ${agreement.moderatorOnly} moderators only\n`;
+    }
+    report += '\n';
 
     report += `## Action Breakdown\n\n`;
     for (const [action, count] of Array.from(actionCounts.entries()).sort((a, b) => b[1] - a[1])) {
@@ -385,6 +514,22 @@ export class FeedbackRecorder {
       report += '\n';
     }
 
+    if (shadowEntries.length > 0) {
+      report += `## Shadow Decisions\n\n`;
+      for (const entry of shadowEntries.slice(0, 10)) {
+        const timeStr = entry.timestamp.toISOString().split('T')[1].split('.')[0];
+        report += `### ${timeStr} - ${entry.actionTaken.action}\n`;
+        report += `- **Reason:** ${entry.actionTaken.reason}\n`;
+        if (entry.resolvedTarget) {
+          report += `- **Target:** ${entry.resolvedTarget.username}\n`;
+        }
+        if (entry.userFeedback) {
+          report += `- **Rating:** ${entry.userFeedback.rating}/5\n`;
+        }
+        report += '\n';
+      }
+    }
+
     return report;
   }
 
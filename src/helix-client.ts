@@ -0,0 +1,533 @@
+// Typed Helix client: token-bucket rate limiting from Twitch's headers, retries and pagination
+
+export interface TwitchApiError {
+  error: string; // 'API_ERROR', 'RATE_LIMITED' or 'NETWORK_ERROR'
+  status: number; // HTTP status, 0 when the request never got a response
+  message: string;
+}
+
+export type HelixMethod = 'GET' | 'POST' | 'PATCH' | 'PUT' | 'DELETE';
+
+type QueryValue = string | number | boolean | string[] | undefined;
+type Query = Record<string, QueryValue>;
+
+export interface HelixResponse<T> {
+  data: T[];
+  pagination?: { cursor?: string };
+  total?: number;
+}
+
+export interface HelixUser {
+  id: string;
+  login: string;
+  display_name: string;
+  type: string;
+  broadcaster_type: string;
+  description: string;
+  profile_image_url: string;
+  created_at: string;
+}
+
+export interface HelixFollower {
+  user_id: string;
+  user_login: string;
+  user_name: string;
+  followed_at: string;
+}
+
+export interface HelixBannedUser {
+  user_id: string;
+  user_login: string;
+  user_name: string;
+  expires_at: string; // empty for permanent bans
+  created_at: string;
+  reason: string;
+  moderator_id: string;
+  moderator_login: string;
+  moderator_name: string;
+}
+
+// An entry of the channel's moderator or VIP list
+export interface HelixChannelRoleMember {
+  user_id: string;
+  user_login: string;
+  user_name: string;
+}
+
+export interface HelixBanRequest {
+  user_id: string;
+  reason?: string;
+  duration?: number; // seconds; leave out for a permanent ban
+}
+
+export interface HelixBan {
+  broadcaster_id: string;
+  moderator_id: string;
+  user_id: string;
+  created_at: string;
+  end_time: string | null;
+}
+
+export interface HelixWarning {
+  broadcaster_id: string;
+  user_id: string;
+  moderator_id: string;
+  reason: string;
+}
+
+export interface HelixChatSettings {
+  broadcaster_id: string;
+  slow_mode: boolean;
+  slow_mode_wait_time: number | null;
+  follower_mode: boolean;
+  follower_mode_duration: number | null;
+  subscriber_mode: boolean;
+  emote_mode: boolean;
+  unique_chat_mode: boolean;
+}
+
+export type HelixChatSettingsUpdate = Partial<Omit<HelixChatSettings, 'broadcaster_id'>>;
+
+export interface HelixBlockedTerm {
+  id: string;
+  text: string;
+  broadcaster_id: string;
+  moderator_id: string;
+  created_at: string;
+  updated_at: string;
+  expires_at: string | null;
+}
+
+export interface HelixShieldModeStatus {
+  is_active: boolean;
+  moderator_id: string;
+  moderator_login: string;
+  moderator_name: string;
+  last_activated_at: string; // empty if Shield Mode was never on
+}
+
+export interface HelixPollRequest {
+  title: string;
+  choices: { title: string }[];
+  duration: number; // seconds
+}
+
+export interface HelixPoll {
+  id: string;
+  title: string;
+  choices: { id: string; title: string; votes: number }[];
+  status: string;
+  duration: number;
+  started_at: string;
+}
+
+export interface HelixPredictionRequest {
+  title: string;
+  outcomes: { title: string }[];
+  prediction_window: number; // seconds
+}
+
+export interface HelixPrediction {
+  id: string;
+  title: string;
+  outcomes: { id: string; title: string; color: string }[];
+  prediction_window: number;
+  status: string;
+  created_at: string;
+}
+
+export interface HelixClip {
+  id: string;
+  edit_url: string;
+}
+
+export interface HelixChannelUpdate {
+  title?: string;
+  game_id?: string;
+}
+
+export interface HelixCategory {
+  id: string;
+  name: string;
+  box_art_url: string;
+}
+
+export interface HelixEventSubSubscriptionRequest {
+  type: string;
+  version: string;
+  condition: Record<string, string>;
+  transport: { method: 'websocket'; session_id: string };
+}
+
+export interface HelixEventSubSubscription {
+  id: string;
+  status: string;
+  type: string;
+  version: string;
+  condition: Record<string, string>;
+  created_at: string;
+  cost: number;
+}
+
+export interface HelixClientConfig {
+  clientId: string;
+  getToken: () => string; // read on every request, so a refreshed token is picked up
+  broadcasterId: string; // the token's owner, who also acts as moderator
+  onUnauthorized?: () => Promise<boolean>; // called after a 401, e.g. to refresh the token; true retries the request once
+  baseUrl?: string;
+  maxRetries?: number;
+}
+
+export interface RateLimitState {
+  limit: number;
+  remaining: number;
+  resetAt: Date | null;
+}
+
+// Twitch's default bucket for user tokens; replaced by Ratelimit-Limit after the first response
+const DEFAULT_RATE_LIMIT = 800;
+const DEFAULT_MAX_RETRIES = 3;
+const BACKOFF_BASE_MS = 500;
+const MAX_JITTER_MS = 250;
+
+// Methods that are safe to repeat after a 5xx or a network failure; a POST may already have been applied
+const IDEMPOTENT_METHODS: HelixMethod[] = ['GET', 'PUT', 'PATCH', 'DELETE'];
+
+/**
+ * Token bucket mirroring Twitch's: the bucket size and remaining points come from the
+ * Ratelimit-* headers of each response, and an empty bucket waits for Ratelimit-Reset
+ */
+export class HelixRateLimiter {
+  private limit = DEFAULT_RATE_LIMIT;
+  private remaining = DEFAULT_RATE_LIMIT;
+  private resetAt = 0; // ms since epoch
+
+  async acquire(): Promise<void> {
+    for (;;) {
+      const now = Date.now();
+      if (this.resetAt && now >= this.resetAt) {
+        this.remaining = this.limit;
+        this.resetAt = 0;
+      }
+      if (this.remaining > 0) {
+        this.remaining--;
+        return;
+      }
+      await sleep(Math.max(this.resetAt - now, 0) + jitter());
+    }
+  }
+
+  update(headers: Headers): void {
+    const limit = Number(headers.get('Ratelimit-Limit'));
+    const remaining = Number(headers.get('Ratelimit-Remaining'));
+    const reset = Number(headers.get('Ratelimit-Reset'));
+
+    if (headers.get('Ratelimit-Limit') !== null && limit > 0) this.limit = limit;
+    if (headers.get('Ratelimit-Remaining') !== null && remaining >= 0) this.remaining = remaining;
+    if (reset > 0) this.resetAt = reset * 1000;
+  }
+
+  /**
+   * Milliseconds until the bucket refills, for waiting out a 429
+   */
+  msUntilReset(): number {
+    return Math.max(this.resetAt - Date.now(), 0);
+  }
+
+  getState(): RateLimitState {
+    return {
+      limit: this.limit,
+      remaining: this.remaining,
+      resetAt: this.resetAt ? new Date(this.resetAt) : null
+    };
+  }
+}
+
+/**
+ * Helix API client. Requests wait for the rate limiter, 429s are retried once the bucket
+ * refills, and 5xx or network failures of idempotent requests are retried with backoff.
+ * A 401 is retried once if onUnauthorized manages to refresh the token.
+ * Failures are thrown as TwitchApiError.
+ */
+export class HelixClient {
+  private config: HelixClientConfig;
+  private limiter = new HelixRateLimiter();
+
+  constructor(config: HelixClientConfig) {
+    this.config = config;
+  }
+
+  getRateLimit(): RateLimitState {
+    return this.limiter.getState();
+  }
+
+  async request<T>(method: HelixMethod, path: string, options: { query?: Query; body?: unknown } = {}): Promise<HelixResponse<T>> {
+    const url = `${this.config.baseUrl || 'https://api.twitch.tv/helix'}${path}${buildQuery(options.query)}`;
+    const maxRetries = this.config.maxRetries ?? DEFAULT_MAX_RETRIES;
+    let reauthorized = false;
+
+    for (let attempt = 0; ; attempt++) {
+      await this.limiter.acquire();
+
+      let response: Response;
+      try {
+        response = await fetch(url, {
+          method,
+          headers: {
+            'Authorization': `Bearer ${this.config.getToken()}`,
+            'Client-Id': this.config.clientId,
+            'Content-Type': 'application/json'
+          },
+          body: options.body !== undefined ? JSON.stringify(options.body) : undefined
+        });
+      } catch (error) {
+        if (attempt < maxRetries && IDEMPOTENT_METHODS.includes(method)) {
+          await sleep(backoff(attempt));
+          continue;
+        }
+        throw {
+          error: 'NETWORK_ERROR',
+          status: 0,
+          message: (error as Error).message || 'Network request failed'
+        } as TwitchApiError;
+      }
+
+      this.limiter.update(response.headers);
+
+      if (response.ok) {
+        if (response.status === 204) {
+          return { data: [] }; // No content response
+        }
+        return await response.json() as HelixResponse<T>;
+      }
+
+      if (response.status === 401 && !reauthorized && this.config.onUnauthorized && await this.config.onUnauthorized()) {
+        reauthorized = true;
+        continue;
+      }
+
+      const retryable = response.status === 429 || (response.status >= 500 && IDEMPOTENT_METHODS.includes(method));
+      if (retryable && attempt < maxRetries) {
+        await sleep(response.status === 429 ? this.limiter.msUntilReset() + jitter() : backoff(attempt));
+        continue;
+      }
+
+      throw {
+        error: response.status === 429 ? 'RATE_LIMITED' : 'API_ERROR',
+        status: response.status,
+        message: errorMessage(await response.text(), response.status)
+      } as TwitchApiError;
+    }
+  }
+
+  /**
+   * Every item of a paginated endpoint, fetching the next page as the previous one runs out
+   */
+  async *paginate<T>(path: string, query: Query = {}, pageSize = 100): AsyncGenerator<T> {
+    let cursor: string | undefined;
+    do {
+      const page = await this.request<T>('GET', path, { query: { ...query, first: String(pageSize), after: cursor } });
+      yield* page.data || [];
+      cursor = page.pagination?.cursor;
+    } while (cursor);
+  }
+
+  /**
+   * Users by id and/or login; Helix takes 100 of them per request
+   */
+  async getUsers(lookup: { ids?: string[]; logins?: string[] }): Promise<HelixUser[]> {
+    const keys = [
+      ...(lookup.ids || []).map(id => ['id', id] as const),
+      ...(lookup.logins || []).map(login => ['login', login] as const)
+    ];
+    const users: HelixUser[] = [];
+
+    for (let i = 0; i < keys.length; i += 100) {
+      const chunk = keys.slice(i, i + 100);
+      const query = {
+        id: chunk.filter(([key]) => key === 'id').map(([, value]) => value),
+        login: chunk.filter(([key]) => key === 'login').map(([, value]) => value)
+      };
+      users.push(...(await this.request<HelixUser>('GET', '/users', { query })).data);
+    }
+    return users;
+  }
+
+  async getUser(lookup: { id: string } | { login: string }): Promise<HelixUser | null> {
+    const users = await this.getUsers('id' in lookup ? { ids: [lookup.id] } : { logins: [lookup.login] });
+    return users[0] || null;
+  }
+
+  async getFollower(userId: string): Promise<HelixFollower | null> {
+    const response = await this.request<HelixFollower>('GET', '/channels/followers', {
+      query: { broadcaster_id: this.config.broadcasterId, user_id: userId }
+    });
+    return response.data[0] || null;
+  }
+
+  async getBannedUser(userId: string): Promise<HelixBannedUser | null> {
+    const response = await this.request<HelixBannedUser>('GET', '/moderation/banned', {
+      query: { broadcaster_id: this.config.broadcasterId, user_id: userId }
+    });
+    return response.data[0] || null;
+  }
+
+  moderators(): AsyncGenerator<HelixChannelRoleMember> {
+    return this.paginate<HelixChannelRoleMember>('/moderation/moderators', { broadcaster_id: this.config.broadcasterId });
+  }
+
+  vips(): AsyncGenerator<HelixChannelRoleMember> {
+    return this.paginate<HelixChannelRoleMember>('/channels/vips', { broadcaster_id: this.config.broadcasterId });
+  }
+
+  /**
+   * Ban a user, or time them out when a duration is given
+   */
+  async banUser(ban: HelixBanRequest): Promise<HelixBan> {
+    const response = await this.request<HelixBan>('POST', '/moderation/bans', {
+      query: this.moderatorQuery(),
+      body: { data: ban }
+    });
+    return response.data[0];
+  }
+
+  /**
+   * Remove a ban or timeout (Helix uses the same endpoint for both)
+   */
+  async unbanUser(userId: string): Promise<void> {
+    await this.request('DELETE', '/moderation/bans', { query: { ...this.moderatorQuery(), user_id: userId } });
+  }
+
+  async warnUser(userId: string, reason: string): Promise<HelixWarning> {
+    const response = await this.request<HelixWarning>('POST', '/moderation/warnings', {
+      query: this.moderatorQuery(),
+      body: { data: { user_id: userId, reason } }
+    });
+    return response.data[0];
+  }
+
+  async deleteChatMessage(messageId: string): Promise<void> {
+    await this.request('DELETE', '/moderation/chat', { query: { ...this.moderatorQuery(), message_id: messageId } });
+  }
+
+  async getChatSettings(): Promise<HelixChatSettings> {
+    return (await this.request<HelixChatSettings>('GET', '/chat/settings', { query: this.moderatorQuery() })).data[0];
+  }
+
+  async updateChatSettings(changes: HelixChatSettingsUpdate): Promise<HelixChatSettings> {
+    const response = await this.request<HelixChatSettings>('PATCH', '/chat/settings', {
+      query: this.moderatorQuery(),
+      body: changes
+    });
+    return response.data[0];
+  }
+
+  blockedTerms(): AsyncGenerator<HelixBlockedTerm> {
+    return this.paginate<HelixBlockedTerm>('/moderation/blocked_terms', this.moderatorQuery());
+  }
+
+  async addBlockedTerm(text: string): Promise<HelixBlockedTerm> {
+    const response = await this.request<HelixBlockedTerm>('POST', '/moderation/blocked_terms', {
+      query: this.moderatorQuery(),
+      body: { text }
+    });
+    return response.data[0];
+  }
+
+  async removeBlockedTerm(id: string): Promise<void> {
+    await this.request('DELETE', '/moderation/blocked_terms', { query: { ...this.moderatorQuery(), id } });
+  }
+
+  async getShieldModeStatus(): Promise<HelixShieldModeStatus> {
+    return (await this.request<HelixShieldModeStatus>('GET', '/moderation/shield_mode', { query: this.moderatorQuery() })).data[0];
+  }
+
+  async updateShieldModeStatus(active: boolean): Promise<HelixShieldModeStatus> {
+    const response = await this.request<HelixShieldModeStatus>('PUT', '/moderation/shield_mode', {
+      query: this.moderatorQuery(),
+      body: { is_active: active }
+    });
+    return response.data[0];
+  }
+
+  /**
+   * Approve or deny a message AutoMod is holding
+   */
+  async manageHeldAutoModMessage(messageId: string, action: 'ALLOW' | 'DENY'): Promise<void> {
+    await this.request('POST', '/moderation/automod/message', {
+      body: { user_id: this.config.broadcasterId, msg_id: messageId, action }
+    });
+  }
+
+  async createPoll(poll: HelixPollRequest): Promise<HelixPoll> {
+    const response = await this.request<HelixPoll>('POST', '/polls', {
+      body: { broadcaster_id: this.config.broadcasterId, ...poll }
+    });
+    return response.data[0];
+  }
+
+  async createPrediction(prediction: HelixPredictionRequest): Promise<HelixPrediction> {
+    const response = await this.request<HelixPrediction>('POST', '/predictions', {
+      body: { broadcaster_id: this.config.broadcasterId, ...prediction }
+    });
+    return response.data[0];
+  }
+
+  async createClip(): Promise<HelixClip> {
+    const response = await this.request<HelixClip>('POST', '/clips', { query: { broadcaster_id: this.config.broadcasterId } });
+    return response.data[0];
+  }
+
+  async modifyChannel(changes: HelixChannelUpdate): Promise<void> {
+    await this.request('PATCH', '/channels', { query: { broadcaster_id: this.config.broadcasterId }, body: changes });
+  }
+
+  async searchCategories(query: string, first = 20): Promise<HelixCategory[]> {
+    return (await this.request<HelixCategory>('GET', '/search/categories', { query: { query, first: String(first) } })).data;
+  }
+
+  async createEventSubSubscription(subscription: HelixEventSubSubscriptionRequest): Promise<HelixEventSubSubscription> {
+    return (await this.request<HelixEventSubSubscription>('POST', '/eventsub/subscriptions', { body: subscription })).data[0];
+  }
+
+  private moderatorQuery(): Query {
+    return { broadcaster_id: this.config.broadcasterId, moderator_id: this.config.broadcasterId };
+  }
+}
+
+function buildQuery(query: Query = {}): string {
+  const params = new URLSearchParams();
+  for (const [key, value] of Object.entries(query)) {
+    if (value === undefined) continue;
+    for (const item of Array.isArray(value) ? value : [value]) {
+      params.append(key, String(item));
+    }
+  }
+  const encoded = params.toString();
+  return encoded ? `?${encoded}` : '';
+}
+
+// Helix errors are JSON ({ error, status, message }); fall back to the raw body
+function errorMessage(body: string, status: number): string {
+  try {
+    const parsed = JSON.parse(body);
+    if (typeof parsed?.message === 'string' && parsed.message) {
+      return parsed.message;
+    }
+  } catch {
+    // not JSON
+  }
+  return body || `HTTP ${status}`;
+}
+
+function backoff(attempt: number): number {
+  return BACKOFF_BASE_MS * 2 ** attempt + jitter();
+}
+
+function jitter(): number {
+  return Math.random() * MAX_JITTER_MS;
+}
+
+function sleep(ms: number): Promise<void> {
+  return new Promise(resolve => setTimeout(resolve, ms));
+}
@@ -0,0 +1,632 @@
+import { ActionDecision, ChatMessage, ChatPattern, AutonomousConfig } from './autonomous-types';
+import { AIAnalysisFunction, AnalysisContext } from './pattern-analyzer';
+import { findMassSpam } from './chat-settings';
+
+// Weighted toxicity keywords - weights add up per message and are capped at 10
+const TOXICITY_KEYWORDS: { term: string; weight: number }[] = [
+  { term: 'kill yourself', weight: 10 },
+  { term: 'kys', weight: 9 },
+  { term: 'i will find you', weight: 8 },
+  { term: 'go die', weight: 8 },
+  { term: 'neck yourself', weight: 9 },
+  { term: 'retard', weight: 6 },
+  { term: 'idiot', weight: 3 },
+  { term: 'moron', weight: 3 },
+  { term: 'stupid', weight: 2 },
+  { term: 'dumb', weight: 2 },
+  { term: 'loser', weight: 2 },
+  { term: 'trash', weight: 2 },
+  { term: 'garbage', weight: 2 },
+  { term: 'shut up', weight: 2 },
+  { term: 'hate you', weight: 3 },
+  { term: 'ugly', weight: 2 },
+  { term: 'pathetic', weight: 2 },
+  { term: 'worthless', weight: 3 },
+  { term: 'uninstall', weight: 1 },
+  { term: 'noob', weight: 1 }
+];
+
+// Phrases that usually indicate self-promotion or scams
+const PROMO_PHRASES = [
+  'buy followers', 'cheap viewers', 'best viewers', 'free followers', 'free viewers',
+  'follow me', 'check out my channel', 'check my channel', 'sub4sub', 'follow4follow',
+  'promote your stream', 'become famous', 'free nitro', 'free skins', 'giveaway at'
+];
+
+const POSITIVE_WORDS = new Set([
+  'love', 'great', 'awesome', 'amazing', 'nice', 'good', 'gg', 'pog', 'poggers', 'lol', 'lmao',
+  'haha', 'cool', 'hype', 'wow', 'thanks', 'thank', 'beautiful', 'best', 'fun', 'clutch', '<3'
+]);
+
+const NEGATIVE_WORDS = new Set([
+  'hate', 'bad', 'boring', 'awful', 'terrible', 'worst', 'sucks', 'trash', 'garbage', 'annoying',
+  'cringe', 'lame', 'sad', 'angry', 'ugh', 'wtf', 'stupid', 'dumb', 'rip', 'lag'
+]);
+
+const URL_REGEX = /\b(?:https?:\/\/|www\.)\S+|\b[a-z0-9-]+\.(?:com|net|org|tv|gg|io|ru|xyz|ly|me|shop)(?:\/\S*)?\b/i;
+
+// Twitch/BTTV/FFZ style emote names: CamelCase or all-caps words like Kappa, PogChamp, LUL, KEKW
+const EMOTE_TOKEN_REGEX = /^(?:[A-Z][a-z]+[A-Z][A-Za-z0-9]*|[A-Z]{3,}[0-9]*|Kappa|Jebaited|monka[A-Z]\w*|pepe\w+|[a-z]+[A-Z][A-Za-z0-9]+)$/;
+
+interface HeuristicDetectorOptions {
+  floodThreshold: number; // messages per minute from one user
+  capsRatioThreshold: number; // 0-1
+  minCapsLength: number; // letters before caps ratio is considered
+  emoteWallMinTokens: number;
+  duplicateSimilarity: number; // 0-1, bigram similarity treated as near-duplicate
+}
+
+interface Detection {
+  type: ChatPattern['type'];
+  messageIndex: number; // 0-based index into the analyzed messages
+  username: string;
+  severity: number;
+  confidence: number;
+  detector: string;
+  reason: string;
+  action: string;
+}
+
+// An action-selection answer; the decision engine turns it into an ActionDecision with the target pattern
+type ActionSelection = Pick<ActionDecision, 'action' | 'parameters' | 'reason' | 'confidence'> & {
+  targetPattern: ChatPattern['type'];
+};
+
+/**
+ * Offline chat detectors that answer the analyzer and decision prompts without an LLM
+ */
+export class HeuristicDetector {
+  private options: HeuristicDetectorOptions;
+
+  constructor(options: Partial<HeuristicDetectorOptions> = {}) {
+    this.options = {
+      floodThreshold: 5,
+      capsRatioThreshold: 0.7,
+      minCapsLength: 10,
+      emoteWallMinTokens: 6,
+      duplicateSimilarity: 0.85,
+      ...options
+    };
+  }
+
+  /**
+   * AIAnalysisFunction implementation backed by the local detectors
+   */
+  analyze: AIAnalysisFunction = async (prompt: string, context?: AnalysisContext): Promise<string> => {
+    const promptType = context?.promptType || this.guessPromptType(prompt);
+    const messages = context?.messages || this.parseMessagesFromPrompt(prompt);
+
+    switch (promptType) {
+      case 'combined':
+        return JSON.stringify({
+          toxicity: JSON.parse(await this.analyze(prompt, { ...context, promptType: 'toxicity', messages })),
+          spam: JSON.parse(await this.analyze(prompt, { ...context, promptType: 'spam', messages })),
+          engagement: JSON.parse(await this.analyze(prompt, { ...context, promptType: 'engagement', messages })),
+          sentiment: this.scoreSentiment(messages),
+          activity: this.scoreActivity(messages)
+        });
+
+      case 'toxicity':
+        return JSON.stringify(this.detectToxicity(messages).map(d => ({
+          messageIndex: d.messageIndex + 1,
+          toxicityScore: d.severity,
+          confidence: this.round(d.confidence),
+          reason: d.reason,
+          action: d.action,
+          username: d.username,
+          detector: d.detector
+        })));
+
+      case 'spam':
+        return JSON.stringify(this.detectSpam(messages, context?.userTimestamps).map(d => ({
+          messageIndex: d.messageIndex + 1,
+          spamScore: d.severity,
+          confidence: this.round(d.confidence),
+          reason: d.reason,
+          action: d.action,
+          username: d.username,
+          detector: d.detector
+        })));
+
+      case 'engagement':
+        return JSON.stringify(this.detectQuestions(messages).map(d => ({
+          messageIndex: d.messageIndex + 1,
+          engagementScore: d.severity,
+          confidence: this.round(d.confidence),
+          reason: d.reason,
+          suggestedResponse: `Answer ${d.username}'s question`,
+          username: d.username,
+          detector: d.detector
+        })));
+
+      case 'sentiment':
+        return JSON.stringify(this.scoreSentiment(messages));
+
+      case 'activity':
+        return JSON.stringify(this.scoreActivity(messages));
+
+      case 'actionSelection':
+        return JSON.stringify(this.selectActions(context));
+
+      case 'parameterGeneration':
+        return JSON.stringify({});
+
+      default:
+        return JSON.stringify({ error: 'Unknown analysis type' });
+    }
+  };
+
+  /**
+   * Weighted keyword toxicity scoring
+   */
+  detectToxicity(messages: ChatMessage[]): Detection[] {
+    const detections: Detection[] = [];
+
+    messages.forEach((message, index) => {
+      const content = this.normalize(message.content);
+      const hits = TOXICITY_KEYWORDS.filter(k => this.containsTerm(content, k.term));
+      if (hits.length === 0) return;
+
+      const severity = Math.min(10, hits.reduce((sum, k) => sum + k.weight, 0));
+      // A single weak keyword is often banter, so confidence grows with the number of hits
+      const confidence = Math.min(0.9, 0.45 + hits.length * 0.15 + (severity >= 8 ? 0.2 : 0));
+
+      detections.push({
+        type: 'toxicity',
+        messageIndex: index,
+        username: message.username,
+        severity,
+        confidence,
+        detector: 'keywords',
+        reason: `Matched toxic terms: ${hits.map(h => h.term).join(', ')}`,
+        action: severity >= 9 ? 'ban' : severity >= 6 ? 'timeout' : severity >= 4 ? 'warn' : 'ignore'
+      });
+    });
+
+    return detections;
+  }
+
+  /**
+   * Flooding, repetition, caps, emote wall and link/promo detection
+   */
+  detectSpam(messages: ChatMessage[], userTimestamps?: Map<string, Date[]>): Detection[] {
+    const detections = [
+      ...this.detectFlooding(messages, userTimestamps),
+      ...this.detectRepetition(messages),
+      ...this.detectCaps(messages),
+      ...this.detectEmoteWalls(messages),
+      ...this.detectLinks(messages)
+    ];
+
+    // Keep the strongest detection per message so one message doesn't produce a pile of patterns
+    const strongest = new Map<number, Detection>();
+    for (const detection of detections) {
+      const existing = strongest.get(detection.messageIndex);
+      if (!existing || detection.severity > existing.severity) {
+        strongest.set(detection.messageIndex, detection);
+      } else if (existing && detection.severity === existing.severity) {
+        existing.confidence = Math.min(0.95, existing.confidence + 0.05);
+      }
+    }
+
+    return Array.from(strongest.values());
+  }
+
+  /**
+   * Message-rate flooding based on per-user timestamps
+   */
+  private detectFlooding(messages: ChatMessage[], userTimestamps?: Map<string, Date[]>): Detection[] {
+    const detections: Detection[] = [];
+    const oneMinuteAgo = Date.now() - 60000;
+    const timestamps = userTimestamps || this.timestampsFromMessages(messages);
+
+    for (const [username, times] of timestamps) {
+      const recentCount = times.filter(t => t.getTime() >= oneMinuteAgo).length;
+      if (recentCount < this.options.floodThreshold) continue;
+
+      const lastIndex = this.lastIndexOfUser(messages, username);
+      if (lastIndex < 0) continue;
+
+      const excess = recentCount - this.options.floodThreshold;
+      detections.push({
+        type: 'spam',
+        messageIndex: lastIndex,
+        username,
+        severity: Math.min(9, 4 + excess),
+        confidence: Math.min(0.9, 0.6 + excess * 0.05),
+        detector: 'flooding',
+        reason: `${recentCount} messages in the last minute (threshold ${this.options.floodThreshold})`,
+        action: excess >= 5 ? 'timeout' : 'warn'
+      });
+    }
+
+    return detections;
+  }
+
+  /**
+   * Repeated and near-duplicate messages from one user, or copypasta across users
+   */
+  private detectRepetition(messages: ChatMessage[]): Detection[] {
+    const detections: Detection[] = [];
+    const normalized = messages.map(m => this.normalize(m.content));
+
+    messages.forEach((message, index) => {
+      if (normalized[index].length < 4) return;
+
+      let sameUser = 0;
+      const otherUsers = new Set<string>();
+      for (let j = 0; j < index; j++) {
+        if (this.similarity(normalized[index], normalized[j]) < this.options.duplicateSimilarity) continue;
+        if (messages[j].username === message.username) {
+          sameUser++;
+        } else {
+          otherUsers.add(messages[j].username);
+        }
+      }
+
+      if (sameUser >= 2) {
+        detections.push({
+          type: 'spam',
+          messageIndex: index,
+          username: message.username,
+          severity: Math.min(8, 3 + sameUser),
+          confidence: Math.min(0.9, 0.6 + sameUser * 0.1),
+          detector: 'repetition',
+          reason: `Message repeated ${sameUser + 1} times`,
+          action: sameUser >= 4 ? 'timeout' : 'warn'
+        });
+      } else if (otherUsers.size >= 3) {
+        detections.push({
+          type: 'spam',
+          messageIndex: index,
+          username: message.username,
+          severity: Math.min(7, 3 + otherUsers.size),
+          confidence: 0.6,
+          detector: 'copypasta',
+          reason: `Same text posted by ${otherUsers.size + 1} users`,
+          action: 'warn'
+        });
+      }
+    });
+
+    return detections;
+  }
+
+  /**
+   * Messages that are mostly uppercase
+   */
+  private detectCaps(messages: ChatMessage[]): Detection[] {
+    const detections: Detection[] = [];
+
+    messages.forEach((message, index) => {
+      const letters = message.content.replace(/[^A-Za-z]/g, '');
+      if (letters.length < this.options.minCapsLength) return;
+
+      const ratio = letters.replace(/[^A-Z]/g, '').length / letters.length;
+      if (ratio < this.options.capsRatioThreshold) return;
+
+      detections.push({
+        type: 'spam',
+        messageIndex: index,
+        username: message.username,
+        severity: letters.length >= 40 ? 5 : 4,
+        confidence: Math.min(0.8, 0.4 + ratio * 0.3 + Math.min(letters.length, 60) / 300),
+        detector: 'caps',
+        reason: `${Math.round(ratio * 100)}% uppercase`,
+        action: 'warn'
+      });
+    });
+
+    return detections;
+  }
+
+  /**
+   * Messages made almost entirely of emotes or the same repeated token
+   */
+  private detectEmoteWalls(messages: ChatMessage[]): Detection[] {
+    const detections: Detection[] = [];
+
+    messages.forEach((message, index) => {
+      const tokens = message.content.trim().split(/\s+/).filter(Boolean);
+      if (tokens.length < this.options.emoteWallMinTokens) return;
+
+      // Prefer the emote ranges from IRC tags when we have them; the name regex is a best guess
+      const taggedEmotes = Object.values(message.emotes || {}).reduce((sum, ranges) => sum + ranges.length, 0);
+      const emoteTokens = Math.min(tokens.length, Math.max(taggedEmotes, tokens.filter(t => EMOTE_TOKEN_REGEX.test(t)).length));
+      const tokenCounts = new Map<string, number>();
+      for (const token of tokens) {
+        tokenCounts.set(token, (tokenCounts.get(token) || 0) + 1);
+      }
+      const maxRepeat = Math.max(...tokenCounts.values());
+      const emoteRatio = emoteTokens / tokens.length;
+      const repeatRatio = maxRepeat / tokens.length;
+
+      if (emoteRatio < 0.8 && repeatRatio < 0.7) return;
+
+      detections.push({
+        type: 'spam',
+        messageIndex: index,
+        username: message.username,
+        severity: tokens.length >= 20 ? 5 : 4,
+        confidence: Math.min(0.85, 0.5 + Math.max(emoteRatio, repeatRatio) * 0.3),
+        detector: 'emoteWall',
+        reason: `${tokens.length} tokens, ${Math.round(Math.max(emoteRatio, repeatRatio) * 100)}% emotes/repeats`,
+        action: 'warn'
+      });
+    });
+
+    return detections;
+  }
+
+  /**
+   * Links and promotional phrases
+   */
+  private detectLinks(messages: ChatMessage[]): Detection[] {
+    const detections: Detection[] = [];
+
+    messages.forEach((message, index) => {
+      const content = this.normalize(message.content);
+      const hasLink = URL_REGEX.test(message.content);
+      const promoHits = PROMO_PHRASES.filter(p => content.includes(p));
+      if (!hasLink && promoHits.length === 0) return;
+
+      // A bare link is often harmless (clips, docs); a link with promo wording rarely is
+      const severity = hasLink && promoHits.length > 0 ? 8 : promoHits.length > 0 ? 6 : 4;
+      detections.push({
+        type: 'spam',
+        messageIndex: index,
+        username: message.username,
+        severity,
+        confidence: hasLink && promoHits.length > 0 ? 0.9 : promoHits.length > 0 ? 0.75 : 0.5,
+        detector: 'linkPromo',
+        reason: [hasLink ? 'Contains a link' : '', ...promoHits.map(p => `promo phrase "${p}"`)].filter(Boolean).join(', '),
+        action: severity >= 8 ? 'timeout' : 'warn'
+      });
+    });
+
+    return detections;
+  }
+
+  /**
+   * Questions that the streamer could answer
+   */
+  private detectQuestions(messages: ChatMessage[]): Detection[] {
+    const detections: Detection[] = [];
+
+    messages.forEach((message, index) => {
+      const content = message.content.trim();
+      if (!content.endsWith('?') || content.split(/\s+/).length < 3) return;
+
+      const directed = /\b(streamer|you|your)\b/i.test(content) || content.startsWith('@');
+      detections.push({
+        type: 'question',
+        messageIndex: index,
+        username: message.username,
+        severity: directed ? 6 : 4,
+        confidence: directed ? 0.6 : 0.4,
+        detector: 'question',
+        reason: directed ? 'Question directed at the streamer' : 'Question in chat',
+        action: 'respond'
+      });
+    });
+
+    return detections;
+  }
+
+  /**
+   * Lexicon-based sentiment score from -1 to 1
+   */
+  private scoreSentiment(messages: ChatMessage[]): { overallSentiment: number; reasoning: string; keyIndicators: string[] } {
+    let positive = 0;
+    let negative = 0;
+    const indicators = new Map<string, number>();
+
+    for (const message of messages) {
+      for (const word of this.normalize(message.content).split(/\s+/)) {
+        if (POSITIVE_WORDS.has(word)) {
+          positive++;
+          indicators.set(word, (indicators.get(word) || 0) + 1);
+        } else if (NEGATIVE_WORDS.has(word)) {
+          negative++;
+          indicators.set(word, (indicators.get(word) || 0) + 1);
+        }
+      }
+    }
+
+    const total = positive + negative;
+    const overallSentiment = total === 0 ? 0 : Math.round(((positive - negative) / total) * 100) / 100;
+    const keyIndicators = Array.from(indicators.entries())
+      .sort((a, b) => b[1] - a[1])
+      .slice(0, 5)
+      .map(([word]) => word);
+
+    return {
+      overallSentiment,
+      reasoning: `Lexicon match: ${positive} positive, ${negative} negative words`,
+      keyIndicators
+    };
+  }
+
+  /**
+   * Activity level from message rate and unique chatters
+   */
+  private scoreActivity(messages: ChatMessage[]): { activityLevel: number; description: string; recommendations: string[] } {
+    if (messages.length === 0) {
+      return { activityLevel: 0, description: 'No recent activity', recommendations: [] };
+    }
+
+    const first = messages[0].timestamp.getTime();
+    const last = messages[messages.length - 1].timestamp.getTime();
+    const minutes = Math.max(1, (last - first) / 60000);
+    const perMinute = messages.length / minutes;
+    const uniqueUsers = new Set(messages.map(m => m.username)).size;
+
+    // ~30 msgs/min with 10+ chatters reads as a very active chat for most channels
+    const activityLevel = Math.min(10, Math.round(perMinute / 3 + Math.min(uniqueUsers, 10) / 2));
+    const description = activityLevel >= 8 ? 'Very active' : activityLevel >= 4 ? 'Moderately active' : activityLevel >= 1 ? 'Quiet' : 'Dead';
+    const recommendations = activityLevel <= 2 ? ['Chat is quiet - consider engaging viewers'] : [];
+
+    return {
+      activityLevel,
+      description: `${description} (${perMinute.toFixed(1)} msgs/min from ${uniqueUsers} users)`,
+      recommendations
+    };
+  }
+
+  /**
+   * Rule-based action selection mirroring the configured moderation rules
+   */
+  private selectActions(context?: AnalysisContext): ActionSelection[] {
+    if (!context?.analysis || !context.config) return [];
+
+    const config: AutonomousConfig = context.config;
+    const toolNames = new Set((context.availableTools || []).map(t => t.name));
+    const decisions: ActionSelection[] = [];
+    const handledUsers = new Set<string>();
+
+    // Spam from many users at once is slowed down as a whole rather than timed out user by user
+    const massSpam = config.rules.spamDetection.enabled && toolNames.has('updateChatSettings')
+      ? findMassSpam(context.analysis.patterns, config.rules.chatModes)
+      : null;
+    if (massSpam) {
+      decisions.push({
+        action: 'updateChatSettings',
+        parameters: {
+          slowModeSeconds: config.rules.chatModes!.slowModeSeconds,
+          revertAfterMinutes: config.rules.chatModes!.revertAfterMinutes
+        },
+        reason: `Heuristic mass spam detection (${new Set(massSpam.flatMap(p => p.users)).size} users)`,
+        confidence: Math.max(...massSpam.map(p => p.confidence)),
+        targetPattern: 'spam'
+      });
+    }
+
+    for (const pattern of context.analysis.patterns) {
+      const user = pattern.users[0];
+      if (!user || handledUsers.has(user) || pattern.confidence < 0.6 || massSpam?.includes(pattern)) continue;
+
+      let action: string | null = null;
+      let duration: number | undefined;
+
+      if (pattern.type === 'toxicity' && config.rules.toxicityDetection.enabled &&
+          pattern.severity >= config.rules.toxicityDetection.severityThreshold) {
+        action = this.ruleActionTool(config.rules.toxicityDetection.action);
+        duration = config.rules.toxicityDetection.duration;
+      } else if (pattern.type === 'spam' && config.rules.spamDetection.enabled && pattern.severity >= 6) {
+        action = this.ruleActionTool(config.rules.spamDetection.action);
+        duration = config.rules.spamDetection.duration;
+      } else if (pattern.type === 'spam' && config.rules.spamDetection.enabled && pattern.messageIds?.[0]) {
+        // Low-severity spam only needs the message gone
+        action = 'deleteChatMessage';
+      }
+
+      if (!action || !toolNames.has(action)) continue;
+
+      handledUsers.add(user);
+      decisions.push({
+        action,
+        parameters: action === 'deleteChatMessage'
+          ? { usernameOrDescriptor: user, messageId: pattern.messageIds![0] }
+          : {
+            usernameOrDescriptor: user,
+            reason: pattern.metadata?.reason || `${pattern.type} detected`,
+            ...(action === 'timeoutUser' && duration ? { duration } : {})
+          },
+        reason: `Heuristic ${pattern.metadata?.detector || pattern.type} detection (${pattern.severity}/10)`,
+        confidence: pattern.confidence,
+        targetPattern: pattern.type
+      });
+    }
+
+    return decisions;
+  }
+
+  // Helpers
+
+  private ruleActionTool(action: 'timeout' | 'ban' | 'warn'): string {
+    return action === 'ban' ? 'banUser' : action === 'warn' ? 'warnUser' : 'timeoutUser';
+  }
+
+  private round(value: number): number {
+    return Math.round(value * 100) / 100;
+  }
+
+  private normalize(text: string): string {
+    return text.toLowerCase().replace(/[^\p{L}\p{N}\s<]/gu, ' ').replace(/\s+/g, ' ').trim();
+  }
+
+  private containsTerm(content: string, term: string): boolean {
+    return new RegExp(`(^|\\s)${term.replace(/[.*+?^${}()|[\]\\]/g, '\\$&')}(\\s|$)`).test(content);
+  }
+
+  /**
+   * Dice coefficient over character bigrams
+   */
+  private similarity(a: string, b: string): number {
+    if (a === b) return 1;
+    if (a.length < 2 || b.length < 2) return 0;
+
+    const bigrams = new Map<string, number>();
+    for (let i = 0; i < a.length - 1; i++) {
+      const bigram = a.substring(i, i + 2);
+      bigrams.set(bigram, (bigrams.get(bigram) || 0) + 1);
+    }
+
+    let overlap = 0;
+    for (let i = 0; i < b.length - 1; i++) {
+      const bigram = b.substring(i, i + 2);
+      const count = bigrams.get(bigram) || 0;
+      if (count > 0) {
+        bigrams.set(bigram, count - 1);
+        overlap++;
+      }
+    }
+
+    return (2 * overlap) / (a.length + b.length - 2);
+  }
+
+  private lastIndexOfUser(messages: ChatMessage[], username: string): number {
+    for (let i = messages.length - 1; i >= 0; i--) {
+      if (messages[i].username === username) return i;
+    }
+    return -1;
+  }
+
+  private timestampsFromMessages(messages: ChatMessage[]): Map<string, Date[]> {
+    const timestamps = new Map<string, Date[]>();
+    for (const message of messages) {
+      const list = timestamps.get(message.username) || [];
+      list.push(message.timestamp);
+      timestamps.set(message.username, list);
+    }
+    return timestamps;
+  }
+
+  /**
+   * Recover "N. username: content" lines when called without structured context
+   */
+  private parseMessagesFromPrompt(prompt: string): ChatMessage[] {
+    const messages: ChatMessage[] = [];
+    const now = new Date();
+    for (const line of prompt.split('\n')) {
+      const match = line.match(/^\d+\.\s+([^:\s]+):\s(.*)$/);
+      if (match) {
+        messages.push({ username: match[1], content: match[2], timestamp: now });
+      }
+    }
+    return messages;
+  }
+
+  private guessPromptType(prompt: string): AnalysisContext['promptType'] | null {
+    const lowerPrompt = prompt.toLowerCase();
+    if (lowerPrompt.includes('generating parameters')) return 'parameterGeneration';
+    if (lowerPrompt.includes('autonomous twitch chat management')) return 'actionSelection';
+    if (lowerPrompt.includes('in a single pass')) return 'combined';
+    if (lowerPrompt.includes('toxicity')) return 'toxicity';
+    if (lowerPrompt.includes('spam')) return 'spam';
+    if (lowerPrompt.includes('engagement')) return 'engagement';
+    if (lowerPrompt.includes('sentiment')) return 'sentiment';
+    if (lowerPrompt.includes('activity')) return 'activity';
+    return null;
+  }
+}
@@ -1,9 +1,24 @@
 import { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
 import { z } from "zod";
-import { Client } from "tmi.js";
+import { Client, ChatUserstate, TimeoutUserstate, BanUserstate, DeleteUserstate } from "tmi.js";
 import { AutonomousMonitor } from "./autonomous-monitor";
-import { AutonomousConfig, ChatMessage as AutonomousMessage } from "./autonomous-types";
+import { AutonomousConfig, ChatMessage as AutonomousMessage, ModeratorAction, ResolvedTarget } from "./autonomous-types";
 import { AIAnalysisFunction } from "./pattern-analyzer";
+import { HeuristicDetector } from "./heuristic-detectors";
+import { createAIProvider } from "./ai-providers";
+import { StrikeLedger } from "./strike-ledger";
+import { getProtectionReason, UserRoleCache } from "./user-protection";
+import { resolveTarget, describeCandidates, TargetResolution } from "./target-resolver";
+import { ChatStore } from "./chat-store";
+import { UserProfile, formatAge } from "./user-profile";
+import { EventSubClient } from "./eventsub-client";
+import { describeStreamEvent } from "./stream-events";
+import { RaidDefense } from "./raid-defense";
+import { BlockedTermList, BlockedTerm } from "./blocked-terms";
+import { AutoModQueue, HeldMessage } from "./automod-queue";
+import { ChatSettings, ChatSettingsController, chatSettingsChanges, describeChatSettings } from "./chat-settings";
+import { HelixClient, HelixChatSettings, HelixChatSettingsUpdate, TwitchApiError } from "./helix-client";
+import { TwitchAuth, TOOL_SCOPES, raidDefenseScopes } from "./twitch-auth";
 import path from "path";
 
 // Configuration schema for Twitch API credentials
@@ -11,11 +26,53 @@ export const configSchema = z.object({
   debug: z.boolean().default(false).describe("Enable debug logging"),
   twitchClientId: z.string().describe("Twitch Client ID for API access"),
   twitchAuthToken: z.string().describe("Twitch OAuth token (without 'oauth:' prefix)"),
+  twitchRefreshToken: z.string().optional().describe("Refresh token for twitchAuthToken; with twitchClientSecret, expired tokens are refreshed"),
+  twitchClientSecret: z.string().optional().describe("Client secret of the Twitch app, needed to refresh the token"),
+  authValidationIntervalMinutes: z.number().positive().default(60).describe("Minutes between validations of the Twitch token"),
   twitchBroadcasterId: z.string().describe("Twitch broadcaster user ID"),
   twitchChannel: z.string().describe("Twitch channel name for chat monitoring"),
   autonomous: z.object({
     enabled: z.boolean().default(false).describe("Enable autonomous monitoring at startup"),
     monitoringInterval: z.number().int().default(5000).describe("Monitoring interval in milliseconds"),
+    shadowMode: z.boolean().default(false).describe("Log and record the actions the agent would take without executing them"),
+    analysisMode: z.enum(['perAspect', 'batched']).default('perAspect').describe("One analysis prompt per aspect, or a single combined prompt per cycle"),
+    analysisContextMessages: z.number().int().min(0).default(20).describe("Already-analyzed messages included as context when analyzing new ones"),
+    mistakeReversal: z.object({
+      enabled: z.boolean().default(false).describe("Automatically lift timeouts/bans that receive a low feedback rating"),
+      maxRating: z.number().int().min(1).max(5).default(1).describe("Ratings at or below this reverse the action"),
+      apologyMessage: z.string().default("Sorry @{user}, that {action} was a mistake and has been lifted.").describe("Chat message posted after a reversal; {user} and {action} are replaced")
+    }).default({}),
+    approval: z.object({
+      enabled: z.boolean().default(false).describe("Hold risky or low-confidence autonomous actions until they are approved"),
+      riskLevel: z.enum(['low', 'medium', 'high']).default('medium').describe("Actions with a higher risk level than this wait for approval"),
+      minConfidence: z.number().min(0).max(1).default(0.5).describe("Actions with lower confidence than this wait for approval"),
+      expiryMinutes: z.number().positive().default(10).describe("Minutes before an unapproved action is dropped")
+    }).default({}),
+    protectedUsers: z.object({
+      moderators: z.boolean().default(true).describe("Never auto-moderate moderators"),
+      vips: z.boolean().default(true).describe("Never auto-moderate VIPs"),
+      subscribers: z.boolean().default(false).describe("Never auto-moderate subscribers"),
+      allowlist: z.array(z.string()).default(['nightbot', 'streamelements', 'streamlabs', 'moobot', 'fossabot']).describe("Logins that are never auto-moderated, e.g. the channel's bots")
+    }).default({}),
+    autoModApproval: z.object({
+      enabled: z.boolean().default(false).describe("Approve low-risk messages held by AutoMod when the local detectors find nothing"),
+      maxLevel: z.number().int().min(1).max(4).default(1).describe("Highest AutoMod level that can be approved automatically"),
+      categories: z.array(z.string()).default(['swearing']).describe("AutoMod categories that can be approved automatically")
+    }).default({}),
+    warningMessage: z.string().default("@{user} Warning: {reason}").describe("Chat reply used when a Helix warning can't be sent; {user} and {reason} are replaced"),
+    strikeLadder: z.object({
+      enabled: z.boolean().default(true).describe("Pick autonomous punishments from each user's strike history instead of the rules' fixed action"),
+      decayHours: z.number().positive().default(24).describe("Hours after which a strike no longer counts"),
+      steps: z.array(z.object({
+        action: z.enum(['warn', 'timeout', 'ban']),
+        duration: z.number().int().positive().optional().describe("Timeout duration in seconds")
+      })).min(1).default([
+        { action: 'warn' },
+        { action: 'timeout', duration: 600 },
+        { action: 'timeout', duration: 3600 },
+        { action: 'ban' }
+      ]).describe("Punishment for the 1st, 2nd, ... active strike; the last step repeats")
+    }).default({}),
     rules: z.object({
       spamDetection: z.object({
         enabled: z.boolean().default(true),
@@ -38,41 +95,133 @@ export const configSchema = z.object({
         enabled: z.boolean().default(false),
         trigger: z.enum(['viewerRequest', 'scheduled', 'gameEvent']).default('viewerRequest'),
         cooldown: z.number().default(15)
-      })
+      }),
+      raidDefense: z.object({
+        enabled: z.boolean().default(false).describe("Lock chat down automatically when a raid or bot wave is detected"),
+        windowSeconds: z.number().positive().default(30).describe("How far back new chatters count towards a wave"),
+        minChatters: z.number().int().min(2).default(8).describe("New chatters in the window before a burst can be a wave"),
+        similarityThreshold: z.number().min(0).max(1).default(0.6).describe("How alike (0-1) messages must be to count as the same text"),
+        maxAccountAgeDays: z.number().min(0).default(7).describe("Accounts younger than this count as new"),
+        followersOnly: z.boolean().default(true).describe("Switch on followers-only mode during the lockdown"),
+        followersOnlyMinutes: z.number().int().min(0).default(10).describe("Required follow age in minutes while followers-only mode is on"),
+        emoteOnly: z.boolean().default(false).describe("Switch on emote-only mode during the lockdown"),
+        shieldMode: z.boolean().default(false).describe("Turn on Shield Mode during the lockdown"),
+        timeoutWave: z.boolean().default(true).describe("Time out the wave's chatters until the lockdown ends"),
+        cooldownMinutes: z.number().positive().default(10).describe("Minutes before the lockdown is reverted")
+      }).default({}),
+      shieldMode: z.object({
+        enabled: z.boolean().default(false).describe("Turn Shield Mode on during sustained high-severity toxicity or spam, and off after a quiet period"),
+        windowMinutes: z.number().positive().default(5).describe("How far back incidents count"),
+        minUsers: z.number().int().min(1).default(4).describe("Distinct offending users in the window that turn Shield Mode on"),
+        minSeverity: z.number().min(1).max(10).default(7).describe("Toxicity/spam severity that counts as an incident"),
+        quietMinutes: z.number().positive().default(10).describe("Minutes without incidents before Shield Mode is turned off")
+      }).default({}),
+      chatModes: z.object({
+        enabled: z.boolean().default(true).describe("Switch on timed slow mode instead of timing out each spammer when many chatters spam at once"),
+        massSpamUsers: z.number().int().min(2).default(3).describe("Distinct spammers in one cycle that call for slow mode"),
+        slowModeSeconds: z.number().int().min(3).max(120).default(10).describe("Seconds between messages in slow mode"),
+        revertAfterMinutes: z.number().positive().default(10).describe("Minutes before a chat mode changed by the agent is reverted")
+      }).default({})
     })
   }).default(() => ({
     enabled: false,
     monitoringInterval: 5000,
+    shadowMode: false,
+    analysisMode: 'perAspect' as 'perAspect',
+    analysisContextMessages: 20,
+    mistakeReversal: { enabled: false, maxRating: 1, apologyMessage: 'Sorry @{user}, that {action} was a mistake and has been lifted.' },
+    approval: { enabled: false, riskLevel: 'medium' as 'medium', minConfidence: 0.5, expiryMinutes: 10 },
+    protectedUsers: { moderators: true, vips: true, subscribers: false, allowlist: ['nightbot', 'streamelements', 'streamlabs', 'moobot', 'fossabot'] },
+    autoModApproval: { enabled: false, maxLevel: 1, categories: ['swearing'] },
+    warningMessage: '@{user} Warning: {reason}',
+    strikeLadder: {
+      enabled: true,
+      decayHours: 24,
+      steps: [
+        { action: 'warn' as 'warn' },
+        { action: 'timeout' as 'timeout', duration: 600 },
+        { action: 'timeout' as 'timeout', duration: 3600 },
+        { action: 'ban' as 'ban' }
+      ]
+    },
     rules: {
       spamDetection: { enabled: true, threshold: 5, action: 'timeout' as 'timeout', duration: 300 },
       toxicityDetection: { enabled: true, severityThreshold: 6, action: 'timeout' as 'timeout', duration: 1800 },
       chatEngagement: { enabled: false, quietPeriodThreshold: 10, responses: ['Hey chat! How is everyone doing?'] },
-      pollAutomation: { enabled: false, trigger: 'viewerRequest' as 'viewerRequest', cooldown: 15 }
+      pollAutomation: { enabled: false, trigger: 'viewerRequest' as 'viewerRequest', cooldown: 15 },
+      raidDefense: {
+        enabled: false,
+        windowSeconds: 30,
+        minChatters: 8,
+        similarityThreshold: 0.6,
+        maxAccountAgeDays: 7,
+        followersOnly: true,
+        followersOnlyMinutes: 10,
+        emoteOnly: false,
+        shieldMode: false,
+        timeoutWave: true,
+        cooldownMinutes: 10
+      },
+      shieldMode: { enabled: false, windowMinutes: 5, minUsers: 4, minSeverity: 7, quietMinutes: 10 },
+      chatModes: { enabled: true, massSpamUsers: 3, slowModeSeconds: 10, revertAfterMinutes: 10 }
     }
   })),
+  aiProvider: z.object({
+    type: z.enum(['heuristic', 'openai', 'sampling']).default('heuristic').describe("Analysis backend: local heuristics, an OpenAI-compatible chat-completions endpoint, or the MCP client's model via sampling"),
+    baseUrl: z.string().default('http://localhost:11434/v1').describe("Base URL of the OpenAI-compatible API (Ollama, llama.cpp, OpenAI)"),
+    model: z.string().default('llama3.1').describe("Model name to request"),
+    apiKey: z.string().optional().describe("API key sent as a Bearer token (optional for local servers)"),
+    timeoutMs: z.number().int().default(20000).describe("Request timeout in milliseconds"),
+    maxTokens: z.number().int().default(1024).describe("Maximum tokens to generate per request"),
+    temperature: z.number().default(0.2).describe("Sampling temperature"),
+    samplingBudgetPerCycle: z.number().int().default(6).describe("Maximum MCP sampling requests per analysis cycle; extra prompts use local heuristics")
+  }).default(() => ({
+    type: 'heuristic' as 'heuristic',
+    baseUrl: 'http://localhost:11434/v1',
+    model: 'llama3.1',
+    timeoutMs: 20000,
+    maxTokens: 1024,
+    temperature: 0.2,
+    samplingBudgetPerCycle: 6
+  })),
+  chatHistory: z.object({
+    enabled: z.boolean().default(false).describe("Store every chat message, with usernames and user IDs, on disk for searchChatHistory (opt-in)"),
+    dir: z.string().default(path.join(process.cwd(), 'chat_history')).describe("Directory for the daily chat history files"),
+    retentionDays: z.number().int().positive().default(30).describe("Days to retain chat history")
+  }).default(() => ({
+    enabled: false,
+    dir: path.join(process.cwd(), 'chat_history'),
+    retentionDays: 30
+  })),
+  eventSub: z.object({
+    enabled: z.boolean().default(false).describe("Receive follows, subs, raids, cheers, redemptions and AutoMod holds over an EventSub WebSocket (opt-in)"),
+    events: z.array(z.enum(['follow', 'subscription', 'resubscription', 'giftSubscription', 'raid', 'cheer', 'redemption', 'automodHold', 'automodUpdate']))
+      .default(['follow', 'subscription', 'resubscription', 'giftSubscription', 'raid', 'cheer', 'redemption', 'automodHold', 'automodUpdate'])
+      .describe("Stream events to subscribe to"),
+    url: z.string().default('wss://eventsub.wss.twitch.tv/ws').describe("EventSub WebSocket URL (change only to use a local stand-in)")
+  }).default(() => ({
+    enabled: false,
+    events: [
+      'follow' as const, 'subscription' as const, 'resubscription' as const, 'giftSubscription' as const, 'raid' as const,
+      'cheer' as const, 'redemption' as const, 'automodHold' as const, 'automodUpdate' as const
+    ],
+    url: 'wss://eventsub.wss.twitch.tv/ws'
+  })),
+  blockedTerms: z.object({
+    enabled: z.boolean().default(false).describe("Flag messages that match blocked terms as toxicity or spam without an AI call (opt-in)"),
+    file: z.string().default(path.join(process.cwd(), 'blocked_terms.json')).describe("JSON file for the local blocked terms"),
+    syncIntervalMinutes: z.number().positive().default(30).describe("Minutes between syncs of the channel's Twitch blocked terms")
+  }).default(() => ({
+    enabled: false,
+    file: path.join(process.cwd(), 'blocked_terms.json'),
+    syncIntervalMinutes: 30
+  })),
   feedbackDir: z.string().default(path.join(process.cwd(), 'autonomous_feedback')).describe("Directory for autonomous feedback storage"),
   maxFeedbackRetentionDays: z.number().int().default(30).describe("Days to retain feedback data")
 });
 
 // Types for API responses and data structures
-interface ChatMessage {
-  username: string;
-  content: string;
-  timestamp: Date;
-}
-
-interface TwitchApiError {
-  error: string;
-  status: number;
-  message: string;
-}
-
-// Descriptor keywords for moderation targeting
-const DESCRIPTOR_KEYWORDS = {
-  toxic: ["idiot", "stupid", "hate", "kill", "dumb", "trash", "noob", "loser", "shut up", "annoying", "toxic", "rude", "mean", "sucks", "bad", "worst", "report", "ban"],
-  spam: ["buy followers", "free", "promo", "visit", "http", "www", "spam", "emote", "caps", "repeated"],
-  rude: ["shut up", "idiot", "stupid", "dumb", "annoying", "rude", "mean", "trash", "loser", "bad", "worst"]
-};
+type ChatMessage = AutonomousMessage;
 
 // Common words to filter out from chat analysis
 const COMMON_WORDS = new Set([
@@ -87,6 +236,12 @@ const COMMON_WORDS = new Set([
   "because", "any", "these", "give", "day", "most", "us"
 ]);
 
+// How often the moderator and VIP lists used for user protection are reloaded
+const CHANNEL_ROLES_SYNC_MINUTES = 10;
+
+// Twitch chat message ids are UUIDs; anything else is not sent as a reply tag
+const MESSAGE_ID_PATTERN = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+
 export default function createStatelessServer({
   config,
 }: {
@@ -101,9 +256,81 @@ export default function createStatelessServer({
   let recentMessages: ChatMessage[] = [];
   const MAX_MESSAGES = 100;
 
+  // Persistent chat history (the in-memory buffer above only keeps the last MAX_MESSAGES)
+  const chatStore = config.chatHistory.enabled
+    ? new ChatStore({ dir: config.chatHistory.dir, retentionDays: config.chatHistory.retentionDays })
+    : null;
+  chatStore?.cleanup();
+
+  // Twitch token, validated at startup and periodically; refreshed when a refresh token is configured
+  const twitchAuth = new TwitchAuth({
+    clientId: config.twitchClientId,
+    accessToken: config.twitchAuthToken,
+    refreshToken: config.twitchRefreshToken,
+    clientSecret: config.twitchClientSecret
+  });
+  const validateAuth = () => twitchAuth.validate().then(reportAuthProblems).catch(error => console.error('Failed to validate the Twitch token:', error));
+  validateAuth();
+  setInterval(validateAuth, config.authValidationIntervalMinutes * 60 * 1000).unref();
+
+  // Helix API client shared by all tools
+  const helix = new HelixClient({
+    clientId: config.twitchClientId,
+    getToken: () => twitchAuth.getToken(),
+    broadcasterId: config.twitchBroadcasterId,
+    onUnauthorized: () => twitchAuth.refresh()
+  });
+
+  // Chat roles of every chatter seen, plus the channel's moderator and VIP lists, for user protection
+  const userRoles = new UserRoleCache();
+  syncChannelRoles();
+  setInterval(syncChannelRoles, CHANNEL_ROLES_SYNC_MINUTES * 60 * 1000).unref();
+
   // Autonomous monitoring instance
   let autoMonitor: AutonomousMonitor | null = null;
 
+  // Per-user offense history, shared by the manual tools and the decision engine
+  const strikeLedger = new StrikeLedger(config.autonomous.strikeLadder);
+
+  // Twitch and local blocked terms, matched locally by the pattern analyzer
+  const blockedTermList = new BlockedTermList(config.blockedTerms.file);
+  const blockedTermsLoaded = blockedTermList.load();
+  if (config.blockedTerms.enabled) {
+    const sync = () => syncBlockedTerms().catch(error => console.error('Failed to sync blocked terms:', error?.message || error));
+    blockedTermsLoaded.then(sync);
+    setInterval(sync, config.blockedTerms.syncIntervalMinutes * 60 * 1000).unref();
+  }
+
+  // Messages AutoMod is holding for review, fed by EventSub
+  const autoModQueue = new AutoModQueue((messageId, action) => helix.manageHeldAutoModMessage(messageId, action));
+
+  // Account creation dates by user id, for raid/bot-wave detection
+  const accountCreation = new Map<string, Date>();
+
+  // Chat modes, with timed reverts for temporary changes such as slow mode for 10 minutes
+  const chatSettings = new ChatSettingsController({ fetch: fetchChatSettings, patch: patchChatSettings });
+
+  // Chat lockdown during raids and bot waves; reverts itself after the cool-down
+  const raidDefense = new RaidDefense({
+    getChatSettings: () => chatSettings.get(),
+    updateChatSettings: async changes => {
+      await chatSettings.update(changes);
+    },
+    getShieldMode: getShieldModeActive,
+    setShieldMode: setShieldModeActive,
+    timeoutUser: async (user, duration, reason) => {
+      if (blockIfProtected('activateRaidDefense', user.username, user.userId)) {
+        return 'protected';
+      }
+      const userId = user.userId || await getUserIdFromUsername(user.username);
+      if (!userId) {
+        throw { error: 'USER_NOT_FOUND', status: 0, message: `Could not resolve user ID for ${user.username}` } as TwitchApiError;
+      }
+      await helix.banUser({ user_id: userId, duration, reason });
+      return 'timedOut';
+    }
+  });
+
   // Utility function to safely stringify JSON for tool responses
   function safeJsonStringify(obj: any, maxLength = 8000): string {
     try {
@@ -118,43 +345,21 @@ export default function createStatelessServer({
     }
   }
 
-  // Heuristic AI analysis function for autonomous monitoring
-  const aiAnalyzeFunction: AIAnalysisFunction = async (prompt: string): Promise<string> => {
-    // For now, return a basic heuristic analysis
-    // In the future, this could be replaced with actual LLM API calls
-    
+  // AI analysis function for autonomous monitoring (local heuristics or a configured LLM provider)
+  const heuristicDetector = new HeuristicDetector({
+    floodThreshold: config.autonomous.rules.spamDetection.threshold
+  });
+  const aiProvider = createAIProvider(config.aiProvider, heuristicDetector, server.server);
+  const aiAnalyzeFunction: AIAnalysisFunction = async (prompt, context) => {
     if (config.debug) {
-      console.log('AI Analysis prompt:', prompt.substring(0, 200) + '...');
-    }
-    
-    // Extract analysis type from prompt
-    const lowerPrompt = prompt.toLowerCase();
-    
-    if (lowerPrompt.includes('toxicity')) {
-      return JSON.stringify([]);
-    } else if (lowerPrompt.includes('spam')) {
-      return JSON.stringify([]);
-    } else if (lowerPrompt.includes('engagement')) {
-      return JSON.stringify([]);
-    } else if (lowerPrompt.includes('sentiment')) {
-      return JSON.stringify({
-        overallSentiment: 0,
-        reasoning: 'Basic heuristic analysis - LLM integration needed',
-        keyIndicators: ['neutral chat']
-      });
-    } else if (lowerPrompt.includes('activity')) {
-      return JSON.stringify({
-        activityLevel: 5,
-        description: 'Moderate activity detected',
-        recommendations: ['Monitor chat for engagement opportunities']
-      });
+      console.log(`AI Analysis prompt (${config.aiProvider.type}):`, prompt.substring(0, 200) + '...');
     }
-    
-    return JSON.stringify({ error: 'Unknown analysis type' });
+    return aiProvider.analyze(prompt, context);
   };
 
   // MCP tool executor for autonomous actions
-  const mcpExecutor = async (toolName: string, parameters: Record<string, any>): Promise<{ success: boolean; result: any; error?: string }> => {
+  type ExecutorResult = { success: boolean; result: any; error?: string };
+  const mcpExecutor = async (toolName: string, parameters: Record<string, any>, actionId?: string): Promise<ExecutorResult> => {
     try {
       if (config.debug) {
         console.log(`Autonomous executor: ${toolName}`, parameters);
@@ -167,97 +372,195 @@ export default function createStatelessServer({
             return { success: false, result: null, error: 'IRC connection not available' };
           }
           await tmiClient.say(`#${config.twitchChannel}`, parameters.message);
-          addChatMessage(config.twitchChannel, `[BOT] ${parameters.message}`);
+          addBotMessage(parameters.message);
           return { success: true, result: { message: parameters.message } };
         }
 
         case 'timeoutUser': {
-          const targetUser = resolveModerationTarget(parameters.usernameOrDescriptor);
-          if (!targetUser) {
-            return { success: false, result: null, error: 'Could not resolve target user' };
+          // Prefer the exact user id from the source message over resolving a name
+          const target = await resolveExecutorTarget(parameters);
+          if ('failure' in target) {
+            return target.failure;
+          }
+          const targetUser = target.username;
+          const blocked = blockIfProtected(toolName, targetUser, target.userId, parameters.messageId);
+          if (blocked) {
+            return blocked;
           }
-          const userId = await getUserIdFromUsername(targetUser);
+          const userId = target.userId || await getUserIdFromUsername(targetUser);
           if (!userId) {
             return { success: false, result: null, error: `Could not resolve user ID for ${targetUser}` };
           }
           const duration = parameters.duration || guessTimeoutDuration(parameters.reason || '');
-          await makeTwitchApiCall('/moderation/bans', 'POST', {
-            broadcaster_id: config.twitchBroadcasterId,
-            moderator_id: config.twitchBroadcasterId,
-            data: {
-              user_id: userId,
-              reason: parameters.reason || 'Autonomous moderation',
-              duration
-            }
+          await helix.banUser({
+            user_id: userId,
+            reason: parameters.reason || 'Autonomous moderation',
+            duration
           });
-          return { success: true, result: { user: targetUser, duration, reason: parameters.reason } };
+          recordStrike(targetUser, userId, 'timeoutUser', parameters.reason || 'Autonomous moderation', duration, actionId);
+          return { success: true, result: { user: targetUser, userId, duration, reason: parameters.reason } };
         }
 
         case 'banUser': {
-          const targetUser = resolveModerationTarget(parameters.usernameOrDescriptor);
-          if (!targetUser) {
-            return { success: false, result: null, error: 'Could not resolve target user' };
+          const target = await resolveExecutorTarget(parameters);
+          if ('failure' in target) {
+            return target.failure;
+          }
+          const targetUser = target.username;
+          const blocked = blockIfProtected(toolName, targetUser, target.userId, parameters.messageId);
+          if (blocked) {
+            return blocked;
           }
-          const userId = await getUserIdFromUsername(targetUser);
+          const userId = target.userId || await getUserIdFromUsername(targetUser);
           if (!userId) {
             return { success: false, result: null, error: `Could not resolve user ID for ${targetUser}` };
           }
-          await makeTwitchApiCall('/moderation/bans', 'POST', {
-            broadcaster_id: config.twitchBroadcasterId,
-            moderator_id: config.twitchBroadcasterId,
-            data: {
-              user_id: userId,
-              reason: parameters.reason || 'Autonomous moderation'
-            }
+          await helix.banUser({
+            user_id: userId,
+            reason: parameters.reason || 'Autonomous moderation'
+          });
+          recordStrike(targetUser, userId, 'banUser', parameters.reason || 'Autonomous moderation', undefined, actionId);
+          return { success: true, result: { user: targetUser, userId, reason: parameters.reason } };
+        }
+
+        case 'warnUser': {
+          const target = await resolveExecutorTarget(parameters);
+          if ('failure' in target) {
+            return target.failure;
+          }
+          const targetUser = target.username;
+          const blocked = blockIfProtected(toolName, targetUser, target.userId, parameters.messageId);
+          if (blocked) {
+            return blocked;
+          }
+          const userId = target.userId || await getUserIdFromUsername(targetUser);
+          const reason = parameters.reason || 'please follow the chat rules';
+          const via = await warnChatUser(targetUser, userId, reason, parameters.messageId);
+          recordStrike(targetUser, userId || undefined, 'warnUser', reason, undefined, actionId);
+          return { success: true, result: { user: targetUser, ...(userId ? { userId } : {}), reason, via } };
+        }
+
+        case 'unbanUser':
+        case 'removeTimeout': {
+          const target = await resolveExecutorTarget(parameters);
+          if ('failure' in target) {
+            return target.failure;
+          }
+          const targetUser = target.username;
+          const userId = target.userId || await getUserIdFromUsername(targetUser);
+          if (!userId) {
+            return { success: false, result: null, error: `Could not resolve user ID for ${targetUser}` };
+          }
+          await liftBan(userId);
+          return { success: true, result: { user: targetUser, userId } };
+        }
+
+        case 'activateRaidDefense': {
+          const result = await raidDefense.activate({
+            users: parameters.users || [],
+            followersOnly: !!parameters.followersOnly,
+            followersOnlyMinutes: parameters.followersOnlyMinutes ?? 10,
+            emoteOnly: !!parameters.emoteOnly,
+            shieldMode: !!parameters.shieldMode,
+            timeoutWave: !!parameters.timeoutWave,
+            cooldownMinutes: parameters.cooldownMinutes ?? 10,
+            reason: parameters.reason || 'Raid or bot wave detected'
           });
-          return { success: true, result: { user: targetUser, reason: parameters.reason } };
+          const nothingDone = result.applied.length === 0 && result.timedOut.length === 0;
+          return {
+            success: !(nothingDone && result.failed.length > 0),
+            result,
+            ...(result.failed.length > 0 ? { error: result.failed.join('; ') } : {})
+          };
+        }
+
+        case 'resolveAutoModMessage': {
+          const action = String(parameters.action).toUpperCase() === 'DENY' ? 'DENY' : 'ALLOW';
+          const message = await autoModQueue.resolve(parameters.messageId, action);
+          return { success: true, result: { messageId: parameters.messageId, action, user: message?.user.login } };
+        }
+
+        case 'setShieldMode': {
+          await setShieldModeActive(!!parameters.active);
+          return { success: true, result: { active: !!parameters.active } };
+        }
+
+        case 'getChatSettings': {
+          return { success: true, result: await chatSettings.get() };
+        }
+
+        case 'updateChatSettings': {
+          const changes = chatSettingsChanges(parameters);
+          if (Object.keys(changes).length === 0) {
+            return { success: false, result: null, error: 'No chat settings to change' };
+          }
+          // The agent's changes are always temporary
+          const revertAfterMinutes = parameters.revertAfterMinutes || config.autonomous.rules.chatModes.revertAfterMinutes;
+          const { settings, revertAt } = await chatSettings.update(changes, revertAfterMinutes);
+          return { success: true, result: { changed: describeChatSettings(changes), settings, revertAt } };
+        }
+
+        case 'deleteChatMessage': {
+          let targetUser: string | null = null;
+          if (parameters.usernameOrDescriptor) {
+            const target = await resolveExecutorTarget(parameters);
+            if ('failure' in target) {
+              if (!parameters.messageId) {
+                return target.failure;
+              }
+            } else {
+              targetUser = target.username;
+            }
+          }
+          const messageId = parameters.messageId || (targetUser ? findLatestMessageId(targetUser) : null);
+          if (!messageId) {
+            return { success: false, result: null, error: 'Could not find a message to delete' };
+          }
+          const blocked = blockIfProtected(toolName, targetUser, parameters.userId, messageId);
+          if (blocked) {
+            return blocked;
+          }
+          await deleteMessage(messageId);
+          return { success: true, result: { messageId, user: targetUser } };
         }
 
         case 'createTwitchPoll': {
           const choicesArray = parameters.choices.split(',').map((c: string) => ({ title: c.trim() }));
-          const response = await makeTwitchApiCall('/polls', 'POST', {
-            broadcaster_id: config.twitchBroadcasterId,
+          const poll = await helix.createPoll({
             title: parameters.title,
             choices: choicesArray,
             duration: parameters.duration
           });
-          return { success: true, result: response };
+          return { success: true, result: poll };
         }
 
         case 'createTwitchPrediction': {
           const outcomesArray = parameters.outcomes.split(',').map((o: string) => ({ title: o.trim() }));
-          const response = await makeTwitchApiCall('/predictions', 'POST', {
-            broadcaster_id: config.twitchBroadcasterId,
+          const prediction = await helix.createPrediction({
             title: parameters.title,
             outcomes: outcomesArray,
             prediction_window: parameters.duration
           });
-          return { success: true, result: response };
+          return { success: true, result: prediction };
         }
 
         case 'createTwitchClip': {
-          const response = await makeTwitchApiCall(`/clips?broadcaster_id=${config.twitchBroadcasterId}`, 'POST');
-          return { success: true, result: response };
+          const clip = await helix.createClip();
+          return { success: true, result: clip };
         }
 
         case 'updateStreamTitle': {
-          await makeTwitchApiCall('/channels', 'PATCH', {
-            broadcaster_id: config.twitchBroadcasterId,
-            title: parameters.title
-          });
+          await helix.modifyChannel({ title: parameters.title });
           return { success: true, result: { title: parameters.title } };
         }
 
         case 'updateStreamCategory': {
-          const searchResponse = await makeTwitchApiCall(`/search/categories?query=${encodeURIComponent(parameters.category)}`);
-          if (!searchResponse.data || searchResponse.data.length === 0) {
+          const categories = await helix.searchCategories(parameters.category);
+          if (categories.length === 0) {
             return { success: false, result: null, error: `Could not find category: ${parameters.category}` };
           }
-          const categoryId = searchResponse.data[0].id;
-          await makeTwitchApiCall('/channels', 'PATCH', {
-            broadcaster_id: config.twitchBroadcasterId,
-            game_id: categoryId
-          });
+          const categoryId = categories[0].id;
+          await helix.modifyChannel({ game_id: categoryId });
           return { success: true, result: { category: parameters.category, categoryId } };
         }
 
@@ -279,7 +582,7 @@ export default function createStatelessServer({
     },
     identity: {
       username: config.twitchChannel,
-      password: `oauth:${config.twitchAuthToken}`
+      password: () => `oauth:${twitchAuth.getToken()}` // read on every (re)connect, so refreshed tokens are used
     },
     channels: [`#${config.twitchChannel}`]
   });
@@ -301,7 +604,17 @@ export default function createStatelessServer({
           maxFeedbackRetentionDays: config.maxFeedbackRetentionDays
         },
         aiAnalyzeFunction,
-        mcpExecutor
+        mcpExecutor,
+        strikeLedger,
+        {
+          targetResolver: resolveActionTarget,
+          userProfileProvider: buildUserProfile,
+          accountAgeLookup: lookupAccountCreation,
+          blockedTerms: config.blockedTerms.enabled ? text => blockedTermList.match(text) : undefined,
+          heldMessageCheck: checkHeldMessage,
+          toolAvailability: (toolName, parameters) => twitchAuth.toolUnavailableReason(toolName, requiredScopes(toolName, parameters)),
+          startAnalysisCycle: () => aiProvider.startCycle?.()
+        }
       );
       
       if (config.autonomous.enabled) {
@@ -320,26 +633,93 @@ export default function createStatelessServer({
   });
 
   // Listen for incoming chat messages and add them to our log
-  tmiClient.on('message', (channel: string, tags: any, message: string, self: boolean) => {
+  tmiClient.on('message', (channel: string, tags: ChatUserstate, message: string, self: boolean) => {
     if (!self) { // Don't log our own messages
-      const username = tags.username || tags['display-name'] || 'unknown';
-      const content = message;
+      const chatMessage = chatMessageFromTags(tags, message);
+      userRoles.observe(chatMessage);
       
       // Add to regular message log
-      addChatMessage(username, content);
+      addChatMessage(chatMessage);
       
       // Forward to autonomous monitor if available
       if (autoMonitor) {
-        const autonomousMessage: AutonomousMessage = {
-          username,
-          content,
-          timestamp: new Date()
-        };
-        autoMonitor.addChatMessages([autonomousMessage]);
+        autoMonitor.addChatMessages([chatMessage]);
       }
     }
   });
 
+  // Timeouts, bans and deletions by moderators, which shadow decisions are compared against
+  tmiClient.on('timeout', (channel: string, username: string, reason: string, duration: number, userstate: TimeoutUserstate) => {
+    recordModeratorAction({ timestamp: sentAt(userstate['tmi-sent-ts']), action: 'timeout', username, userId: userstate['target-user-id'], duration });
+  });
+  tmiClient.on('ban', (channel: string, username: string, reason: string, userstate: BanUserstate) => {
+    recordModeratorAction({ timestamp: sentAt(userstate['tmi-sent-ts']), action: 'ban', username, userId: userstate['target-user-id'] });
+  });
+  tmiClient.on('messagedeleted', (channel: string, username: string, deletedMessage: string, userstate: DeleteUserstate) => {
+    recordModeratorAction({ timestamp: new Date(), action: 'delete', username, messageId: userstate['target-msg-id'] });
+  });
+
+  function recordModeratorAction(action: ModeratorAction): void {
+    autoMonitor?.recordModeratorAction(action).catch(error => console.error('Failed to record moderator action:', error));
+  }
+
+  // Stream events (follows, subs, raids, ...) from EventSub, forwarded to the autonomous monitor
+  const eventSubClient = config.eventSub.enabled
+    ? new EventSubClient(
+      { url: config.eventSub.url, broadcasterId: config.twitchBroadcasterId, events: config.eventSub.events },
+      subscription => helix.createEventSubSubscription(subscription),
+      event => {
+        if (config.debug) {
+          console.log(`Stream event: ${describeStreamEvent(event)}`);
+        }
+        if (event.type === 'automodHold') {
+          const held = autoModQueue.hold(event);
+          autoMonitor?.reviewHeldMessage(held).catch(error => console.error('Failed to review held message:', error));
+        } else if (event.type === 'automodUpdate') {
+          autoModQueue.update(event);
+        } else {
+          autoMonitor?.addStreamEvents([event]);
+        }
+      }
+    )
+    : null;
+  eventSubClient?.start();
+
+  // When Twitch sent an IRC message, falling back to now
+  function sentAt(tmiSentTs: string | undefined): Date {
+    const sent = Number(tmiSentTs);
+    return Number.isFinite(sent) && sent > 0 ? new Date(sent) : new Date();
+  }
+
+  // Build a chat message from IRC tags, keeping ids, badges and flags
+  function chatMessageFromTags(tags: ChatUserstate, content: string): ChatMessage {
+    const badges: Record<string, string> = {};
+    for (const [badge, version] of Object.entries(tags.badges || {})) {
+      if (version !== undefined) {
+        badges[badge] = version;
+      }
+    }
+
+    const bits = Number(tags.bits);
+
+    return {
+      id: tags.id,
+      userId: tags['user-id'],
+      username: tags.username || tags['display-name']?.toLowerCase() || 'unknown',
+      displayName: tags['display-name'],
+      content,
+      timestamp: sentAt(tags['tmi-sent-ts']),
+      badges,
+      isBroadcaster: 'broadcaster' in badges,
+      isMod: tags.mod === true || 'moderator' in badges,
+      isVip: tags.vip === true || 'vip' in badges,
+      isSubscriber: tags.subscriber === true || 'subscriber' in badges || 'founder' in badges,
+      firstMessage: tags['first-msg'] === true || tags['first-msg'] === '1',
+      emotes: tags.emotes || undefined,
+      bits: Number.isFinite(bits) && bits > 0 ? bits : undefined
+    };
+  }
+
   // Function to ensure IRC connection is ready
   async function ensureIrcConnection(): Promise<boolean> {
     if (ircConnected) {
@@ -356,77 +736,33 @@ export default function createStatelessServer({
     }
   }
 
-  // Utility function to make Twitch API calls
-  async function makeTwitchApiCall(
-    endpoint: string, 
-    method: 'GET' | 'POST' | 'PATCH' | 'DELETE' = 'GET', 
-    body?: any
-  ): Promise<any> {
-    const url = `https://api.twitch.tv/helix${endpoint}`;
-    const headers = {
-      'Authorization': `Bearer ${config.twitchAuthToken}`,
-      'Client-Id': config.twitchClientId,
-      'Content-Type': 'application/json'
-    };
-
-    try {
-      const response = await fetch(url, {
-        method,
-        headers,
-        body: body ? JSON.stringify(body) : undefined
-      });
-
-      if (!response.ok) {
-        const errorText = await response.text();
-        throw {
-          error: 'API_ERROR',
-          status: response.status,
-          message: errorText || `HTTP ${response.status}`
-        } as TwitchApiError;
-      }
-
-      if (response.status === 204) {
-        return { success: true }; // No content response
-      }
-
-      return await response.json();
-    } catch (error) {
-      const err = error as any;
-      if (err.error) {
-        throw error; // Re-throw our formatted error
-      }
-      throw {
-        error: 'NETWORK_ERROR', 
-        status: 0, 
-        message: (error as Error).message || 'Network request failed'
-      } as TwitchApiError;
-    }
-  }
-
   // Get user ID from username
   async function getUserIdFromUsername(username: string): Promise<string | null> {
     try {
-      const response = await makeTwitchApiCall(`/users?login=${encodeURIComponent(username)}`);
-      return response.data?.[0]?.id || null;
+      return (await helix.getUser({ login: username }))?.id || null;
     } catch {
       return null;
     }
   }
 
-  // Add a simulated chat message (in production, this would be from IRC/WebSocket)
-  function addChatMessage(username: string, content: string) {
-    const message: ChatMessage = {
-      username,
-      content,
-      timestamp: new Date()
-    };
-    
+  // Add a chat message to the local log
+  function addChatMessage(message: ChatMessage) {
+    chatStore?.append(message);
     recentMessages.push(message);
     if (recentMessages.length > MAX_MESSAGES) {
       recentMessages.shift();
     }
   }
 
+  // Add a message the bot sent to the local log
+  function addBotMessage(content: string) {
+    addChatMessage({
+      username: config.twitchChannel,
+      content: `[BOT] ${content}`,
+      timestamp: new Date()
+    });
+  }
+
   // Analyze recent chat messages
   function analyzeChat(): string {
     if (recentMessages.length === 0) {
@@ -457,40 +793,62 @@ export default function createStatelessServer({
     return `Chat Analysis:\n- Total messages: ${recentMessages.length}\n- Average words per message: ${avgWordsPerMessage}\n- Top topics: ${topWords.length > 0 ? topWords.join(', ') : 'No significant topics detected'}`;
   }
 
-  // Find user by descriptor (toxic, spam, etc.) or partial name
-  function findUserByDescriptor(descriptor: string): string | null {
-    const keywords = DESCRIPTOR_KEYWORDS[descriptor.toLowerCase() as keyof typeof DESCRIPTOR_KEYWORDS] || [descriptor];
-    const userScores = new Map<string, number>();
+  // Resolve a moderation target from recent chat: exact login, then display name, then unique fuzzy matches
+  function resolveModerationTarget(input: string | undefined): TargetResolution {
+    return resolveTarget(input || '', recentMessages);
+  }
 
-    for (const message of recentMessages) {
-      const content = message.content.toLowerCase();
-      for (const keyword of keywords) {
-        if (content.includes(keyword)) {
-          userScores.set(message.username, (userScores.get(message.username) || 0) + 1);
-        }
+  // Executor target: the decision's exact user id wins if it belongs to the named login, otherwise the name is resolved from recent chat
+  async function resolveExecutorTarget(parameters: Record<string, any>): Promise<{ username: string; userId?: string } | { failure: ExecutorResult }> {
+    if (parameters.userId && parameters.usernameOrDescriptor) {
+      if (await userIdMatchesLogin(parameters.userId, parameters.usernameOrDescriptor)) {
+        return { username: parameters.usernameOrDescriptor, userId: parameters.userId };
       }
+      console.warn(`User ID ${parameters.userId} does not belong to ${parameters.usernameOrDescriptor}, resolving the name instead`);
     }
 
-    if (userScores.size === 0) return null;
-    
-    return Array.from(userScores.entries())
-      .sort(([,a], [,b]) => b - a)[0][0];
+    const resolution = resolveModerationTarget(parameters.usernameOrDescriptor);
+    if (resolution.status === 'resolved') {
+      return { username: resolution.target.username, userId: resolution.target.userId };
+    }
+    if (resolution.status === 'ambiguous') {
+      return {
+        failure: {
+          success: false,
+          result: { ambiguous: true, input: resolution.input, candidates: resolution.candidates },
+          error: `Ambiguous target "${resolution.input}": ${describeCandidates(resolution.candidates)}`
+        }
+      };
+    }
+    return { failure: { success: false, result: null, error: 'Could not resolve target user' } };
   }
 
-  // Resolve moderation target
-  function resolveModerationTarget(input: string): string | null {
-    if (!input?.trim()) return null;
-    
-    const lowered = input.toLowerCase();
-    // Check for explicit username patterns
-    if (lowered.includes("user named") || /^[a-zA-Z0-9_]{3,25}$/.test(input.trim())) {
-      const username = input.replace(/.*user named\s+/, "").trim();
-      // Try to find in recent messages
-      const found = recentMessages.find(m => m.username.toLowerCase().includes(username.toLowerCase()));
-      return found?.username || username;
+  // Whether a user id and login belong together: recent chat decides, Helix only for users who haven't chatted
+  async function userIdMatchesLogin(userId: string, username: string): Promise<boolean> {
+    const login = username.replace(/^@/, '').toLowerCase();
+    const related = recentMessages.filter(m => m.userId && (m.userId === userId || m.username.toLowerCase() === login));
+    if (related.some(m => m.userId === userId && m.username.toLowerCase() === login)) {
+      return true;
     }
-    
-    return null; // Let LLM review chat log
+    if (related.length > 0) {
+      return false;
+    }
+    return await getUserIdFromUsername(login) === userId;
+  }
+
+  // Tool response for targets that didn't resolve to exactly one chatter
+  function unresolvedTargetResponse(resolution: TargetResolution) {
+    if (resolution.status === 'ambiguous') {
+      return {
+        content: [{ type: "text" as const, text: `"${resolution.input}" matches more than one chatter, so no action was taken. ` +
+          `Retry with one of these usernames:\n${safeJsonStringify(resolution.candidates)}` }]
+      };
+    }
+
+    const log = getRecentChatLog(20);
+    return {
+      content: [{ type: "text" as const, text: `Could not match "${resolution.input}" to a chatter. Here are the last 20 chat messages:\n${log.join('\n')}` }]
+    };
   }
 
   // Guess timeout duration based on reason
@@ -506,123 +864,489 @@ export default function createStatelessServer({
     return 600; // Default 10 minutes
   }
 
-  // Get recent chat log as formatted strings
-  function getRecentChatLog(n: number = 20): string[] {
-    const messages = recentMessages.slice(-n);
-    return messages.map(m => `${m.username}: ${m.content}`);
-  }
-
-  // Tool: Send message to Twitch chat
-  server.tool(
-    "sendMessageToChat",
-    "Send message to the Twitch Chat",
-    {
-      message: z.string().describe("The message to send to chat")
-    },
-    async ({ message }) => {
+  // Warn a user through Helix, falling back to a chat reply (e.g. when the token lacks moderator:manage:warnings)
+  async function warnChatUser(
+    username: string,
+    userId: string | null,
+    reason: string,
+    replyToMessageId?: string
+  ): Promise<'helix' | 'chat'> {
+    // Without moderator:manage:warnings the Helix call can only fail, so go straight to chat
+    if (userId && !twitchAuth.toolDegradedReason('warnUser')) {
       try {
-        // Ensure IRC connection is ready
-        const connected = await ensureIrcConnection();
-        if (!connected) {
-          return {
-            content: [{ type: "text", text: `Failed to send message: IRC connection not available` }]
-          };
-        }
-
-        // Send the message to Twitch chat via IRC
-        await tmiClient.say(`#${config.twitchChannel}`, message);
-        
-        // Add to our local message log for analysis
-        addChatMessage(config.twitchChannel, `[BOT] ${message}`);
-        
-        return {
-          content: [{ type: "text", text: `Successfully sent message to Twitch chat: ${message}` }]
-        };
+        await helix.warnUser(userId, reason);
+        return 'helix';
       } catch (error) {
-        const errorMessage = error instanceof Error ? error.message : 'Unknown error';
-        return {
-          content: [{ type: "text", text: `Failed to send message: ${errorMessage}` }]
-        };
+        const err = error as TwitchApiError;
+        console.error(`Helix warning failed for ${username}, replying in chat instead:`, err.message);
       }
     }
-  );
 
-  // Tool: Create Twitch Poll
-  server.tool(
-    "createTwitchPoll",
-    "Create a Twitch Poll",
-    {
-      title: z.string().describe("Poll title"),
-      choices: z.string().describe("Comma-separated choices"),
-      duration: z.number().int().describe("Duration in seconds")
-    },
-    async ({ title, choices, duration }) => {
-      try {
-        const choicesArray = choices.split(',').map(c => ({ title: c.trim() }));
-        
-        const response = await makeTwitchApiCall('/polls', 'POST', {
-          broadcaster_id: config.twitchBroadcasterId,
-          title,
-          choices: choicesArray,
-          duration
-        });
+    const connected = await ensureIrcConnection();
+    if (!connected) {
+      throw { error: 'IRC_ERROR', status: 0, message: 'IRC connection not available' } as TwitchApiError;
+    }
 
-        return {
-          content: [{ type: "text", text: "Poll created successfully!" }]
-        };
-      } catch (error) {
-        const err = error as TwitchApiError;
-        return {
-          content: [{ type: "text", text: `Error creating poll: ${err.message}` }]
-        };
-      }
+    // The reply goes out as a raw IRC line, so line breaks in the text would start new commands
+    const warning = config.autonomous.warningMessage
+      .replace(/\{user\}/g, username)
+      .replace(/\{reason\}/g, reason)
+      .replace(/[\r\n]+/g, ' ');
+    if (replyToMessageId && MESSAGE_ID_PATTERN.test(replyToMessageId)) {
+      await tmiClient.raw(`@reply-parent-msg-id=${replyToMessageId} PRIVMSG #${config.twitchChannel} :${warning}`);
+    } else {
+      await tmiClient.say(`#${config.twitchChannel}`, warning);
     }
-  );
+    addBotMessage(warning);
+    return 'chat';
+  }
 
-  // Tool: Create Twitch Prediction
-  server.tool(
-    "createTwitchPrediction",
-    "Create a Twitch Prediction",
-    {
-      title: z.string().describe("Prediction title"),
-      outcomes: z.string().describe("Comma-separated outcomes"),
-      duration: z.number().int().describe("Duration in seconds")
-    },
-    async ({ title, outcomes, duration }) => {
-      try {
-        const outcomesArray = outcomes.split(',').map(o => ({ title: o.trim() }));
-        
-        const response = await makeTwitchApiCall('/predictions', 'POST', {
-          broadcaster_id: config.twitchBroadcasterId,
-          title,
-          outcomes: outcomesArray,
-          prediction_window: duration
-        });
+  // Resolve who a moderation action would hit, without executing it
+  async function resolveActionTarget(toolName: string, parameters: Record<string, any>): Promise<ResolvedTarget | null> {
+    if (!['timeoutUser', 'banUser', 'warnUser', 'deleteChatMessage', 'unbanUser', 'removeTimeout'].includes(toolName)) {
+      return null;
+    }
 
-        return {
-          content: [{ type: "text", text: "Prediction created successfully!" }]
-        };
-      } catch (error) {
-        const err = error as TwitchApiError;
-        return {
-          content: [{ type: "text", text: `Error creating prediction: ${err.message}` }]
-        };
+    const target = await resolveExecutorTarget(parameters);
+    if ('failure' in target) {
+      return null;
+    }
+    const username = target.username;
+
+    const messageId = toolName === 'deleteChatMessage' ? parameters.messageId || findLatestMessageId(username) : undefined;
+    const userId = toolName === 'deleteChatMessage' ? target.userId : target.userId || await getUserIdFromUsername(username);
+    const protection = ['unbanUser', 'removeTimeout'].includes(toolName)
+      ? null
+      : protectionReasonFor(username, userId || undefined, messageId || parameters.messageId);
+
+    return {
+      username,
+      ...(userId ? { userId } : {}),
+      ...(messageId ? { messageId } : {}),
+      ...(protection ? { protection } : {})
+    };
+  }
+
+  // Most recent chat message for a moderation target, for its badges; prefers the exact message when known
+  function findTargetMessage(username: string | null, userId?: string, messageId?: string): ChatMessage | undefined {
+    if (messageId) {
+      const exact = recentMessages.find(m => m.id === messageId);
+      if (exact) {
+        return exact;
       }
     }
-  );
 
-  // Tool: Create Twitch Clip
-  server.tool(
-    "createTwitchClip",
-    "Create a Twitch clip of the current stream",
-    {},
-    async () => {
-      try {
-        const response = await makeTwitchApiCall(`/clips?broadcaster_id=${config.twitchBroadcasterId}`, 'POST');
-        
-        const editUrl = response.data?.[0]?.edit_url;
-        const clipUrl = editUrl ? `Clip created successfully! You can view it at: ${editUrl}` : "Clip created successfully!";
-        
+    const lowered = username?.toLowerCase();
+    for (let i = recentMessages.length - 1; i >= 0; i--) {
+      const message = recentMessages[i];
+      if ((userId && message.userId === userId) || (lowered && message.username.toLowerCase() === lowered)) {
+        return message;
+      }
+    }
+    return undefined;
+  }
+
+  // Why a moderation target is protected from autonomous actions, or null
+  function protectionReasonFor(username: string | null, userId?: string, messageId?: string): string | null {
+    // A user id alone still gets the broadcaster and role checks; with neither, the author is unknown and the check fails closed
+    const message = findTargetMessage(username, userId, messageId);
+    const targetName = username || message?.username;
+    const target = { ...(targetName ? { username: targetName } : {}), userId: userId || message?.userId };
+    return getProtectionReason(
+      target,
+      userRoles.getRoles(target),
+      config.autonomous.protectedUsers,
+      { login: config.twitchChannel, id: config.twitchBroadcasterId }
+    );
+  }
+
+  // Refuse autonomous moderation of protected users; returns the executor result when blocked
+  function blockIfProtected(
+    toolName: string,
+    username: string | null,
+    userId?: string,
+    messageId?: string
+  ): ExecutorResult | null {
+    const reason = protectionReasonFor(username, userId, messageId);
+    if (!reason) {
+      return null;
+    }
+
+    const targetName = username || findTargetMessage(null, userId, messageId)?.username || 'unknown';
+    console.warn(`Blocked ${toolName} on protected user ${targetName} (${reason})`);
+    return {
+      success: false,
+      result: { blocked: true, user: targetName, protection: reason },
+      error: `${targetName} is a protected user (${reason})`
+    };
+  }
+
+  // Count a punishment towards the user's strike ladder; autonomous actions pass their id so a reversal removes this strike
+  function recordStrike(username: string, userId: string | undefined, action: string, reason: string, duration?: number, actionId?: string): void {
+    strikeLedger.addStrike(username, {
+      timestamp: new Date(), action, reason,
+      ...(duration ? { duration } : {}),
+      ...(actionId ? { actionId } : {})
+    }, userId);
+  }
+
+  // Combine a user's recent chat, strikes and autonomous actions with their Helix account, follow and ban status
+  async function buildUserProfile(username: string, userId?: string): Promise<UserProfile> {
+    const lowered = username.replace(/^@/, '').toLowerCase();
+    const recent = recentMessages.filter(m =>
+      (userId && m.userId === userId) || m.username.toLowerCase() === lowered
+    );
+    const profile: UserProfile = {
+      username: recent[recent.length - 1]?.username || username.replace(/^@/, ''),
+      userId: userId || recent.find(m => m.userId)?.userId,
+      displayName: recent.find(m => m.displayName)?.displayName,
+      recentMessages: recent.slice(-10),
+      activeStrikes: strikeLedger.getActiveStrikes(lowered),
+      pastActions: autoMonitor?.getFeedbackForUser(lowered, userId) || [],
+      lookupErrors: []
+    };
+
+    try {
+      const user = await helix.getUser(profile.userId ? { id: profile.userId } : { login: lowered });
+      if (!user) {
+        profile.lookupErrors.push('user not found on Twitch');
+        return profile;
+      }
+      profile.username = user.login;
+      profile.userId = user.id;
+      profile.displayName = user.display_name;
+      profile.accountCreatedAt = new Date(user.created_at);
+    } catch (error) {
+      profile.lookupErrors.push(`account: ${(error as TwitchApiError).message}`);
+      return profile;
+    }
+
+    try {
+      const follow = await helix.getFollower(profile.userId!);
+      profile.followedAt = follow ? new Date(follow.followed_at) : null;
+    } catch (error) {
+      profile.lookupErrors.push(`follow: ${(error as TwitchApiError).message}`);
+    }
+
+    try {
+      const ban = await helix.getBannedUser(profile.userId!);
+      profile.moderationStatus = ban
+        ? {
+          banned: !ban.expires_at, // timeouts have an expiry, bans don't
+          ...(ban.expires_at ? { timeoutExpiresAt: new Date(ban.expires_at) } : {}),
+          ...(ban.reason ? { reason: ban.reason } : {})
+        }
+        : null;
+    } catch (error) {
+      profile.lookupErrors.push(`ban status: ${(error as TwitchApiError).message}`);
+    }
+
+    return profile;
+  }
+
+  // Find the most recent message id from a user
+  function findLatestMessageId(username: string): string | null {
+    const lowered = username.toLowerCase();
+    for (let i = recentMessages.length - 1; i >= 0; i--) {
+      const message = recentMessages[i];
+      if (message.username.toLowerCase() === lowered && message.id) {
+        return message.id;
+      }
+    }
+    return null;
+  }
+
+  // Delete a single chat message by id
+  async function deleteMessage(messageId: string): Promise<void> {
+    await helix.deleteChatMessage(messageId);
+  }
+
+  // Remove a ban or timeout (Helix uses the same endpoint for both)
+  async function liftBan(userId: string): Promise<void> {
+    await helix.unbanUser(userId);
+  }
+
+  // Helix chat settings as the modes ChatSettingsController works with
+  function parseChatSettings(settings: Partial<HelixChatSettings> = {}): ChatSettings {
+    return {
+      slowMode: settings.slow_mode ? settings.slow_mode_wait_time ?? 30 : null,
+      followersOnly: settings.follower_mode ? settings.follower_mode_duration ?? 0 : null,
+      subscribersOnly: !!settings.subscriber_mode,
+      emoteOnly: !!settings.emote_mode,
+      uniqueChat: !!settings.unique_chat_mode
+    };
+  }
+
+  async function fetchChatSettings(): Promise<ChatSettings> {
+    return parseChatSettings(await helix.getChatSettings());
+  }
+
+  // Change chat modes; fields left out stay as they are
+  async function patchChatSettings(changes: Partial<ChatSettings>): Promise<ChatSettings> {
+    const body: HelixChatSettingsUpdate = {};
+    if (changes.slowMode !== undefined) {
+      body.slow_mode = changes.slowMode !== null;
+      if (changes.slowMode !== null) body.slow_mode_wait_time = changes.slowMode;
+    }
+    if (changes.followersOnly !== undefined) {
+      body.follower_mode = changes.followersOnly !== null;
+      if (changes.followersOnly !== null) body.follower_mode_duration = changes.followersOnly;
+    }
+    if (changes.subscribersOnly !== undefined) body.subscriber_mode = changes.subscribersOnly;
+    if (changes.emoteOnly !== undefined) body.emote_mode = changes.emoteOnly;
+    if (changes.uniqueChat !== undefined) body.unique_chat_mode = changes.uniqueChat;
+
+    return parseChatSettings(await helix.updateChatSettings(body));
+  }
+
+  // Log an invalid token or missing scopes once per validation, so problems show up before a tool fails
+  /**
+   * Scopes a tool call needs when they depend on its parameters, or undefined for the tool's
+   * TOOL_SCOPES entry. Raid defense only needs the scopes of the measures it switches on
+   * (the configured ones when no parameters are given) or, when ending, the ones it switched on.
+   */
+  function requiredScopes(toolName: string, parameters?: Record<string, any>): string[] | undefined {
+    if (toolName === 'activateRaidDefense') {
+      return raidDefenseScopes(parameters || config.autonomous.rules.raidDefense);
+    }
+    if (toolName === 'endRaidDefense') {
+      const measures = raidDefense.getStatus().measures;
+      return raidDefenseScopes({
+        followersOnly: measures.includes('followersOnly'),
+        emoteOnly: measures.includes('emoteOnly'),
+        shieldMode: measures.includes('shieldMode')
+      });
+    }
+    return undefined;
+  }
+
+  function reportAuthProblems(status: ReturnType<TwitchAuth['getStatus']>): void {
+    if (status.valid === false) {
+      console.error(`Twitch token is invalid or expired${status.canRefresh ? ' and could not be refreshed' : ''}: ${status.error || ''}`);
+      return;
+    }
+    if (status.valid === null) {
+      console.error(`Twitch token could not be validated: ${status.error || 'unknown error'}`);
+      return;
+    }
+
+    const missing = Array.from(new Set(Object.keys(TOOL_SCOPES).flatMap(tool => twitchAuth.missingScopes(tool, requiredScopes(tool)))));
+    if (missing.length > 0) {
+      console.warn(`Twitch token is missing scopes: ${missing.join(', ')}. See getAuthStatus for the affected tools.`);
+    }
+    for (const tool of Object.keys(TOOL_SCOPES)) {
+      const degraded = twitchAuth.toolDegradedReason(tool);
+      if (degraded) {
+        console.warn(`${tool} is degraded: ${degraded}`);
+      }
+    }
+  }
+
+  // Local detector findings for a held AutoMod message, used by the autoModApproval policy
+  function checkHeldMessage(held: HeldMessage): string[] {
+    const message: ChatMessage = {
+      username: held.user.login,
+      userId: held.user.id,
+      content: held.text,
+      timestamp: held.heldAt
+    };
+    const detections = [...heuristicDetector.detectToxicity([message]), ...heuristicDetector.detectSpam([message])];
+    const blockedTerms = config.blockedTerms.enabled ? blockedTermList.match(held.text) : [];
+
+    return [
+      ...detections.map(d => `${d.type}: ${d.reason}`),
+      ...blockedTerms.map(m => `blocked term "${m.term.pattern}"`)
+    ];
+  }
+
+  // Reload the moderator and VIP lists; a list that can't be loaded keeps its last version
+  async function syncChannelRoles(): Promise<void> {
+    const load = async (list: 'moderators' | 'vips') => {
+      const members: { id: string; login: string }[] = [];
+      for await (const member of helix[list]()) {
+        members.push({ id: member.user_id, login: member.user_login });
+      }
+      return members;
+    };
+
+    try {
+      userRoles.setModerators(await load('moderators'));
+    } catch (error) {
+      console.error('Failed to load the moderator list:', (error as TwitchApiError).message);
+    }
+    try {
+      userRoles.setVips(await load('vips'));
+    } catch (error) {
+      console.error('Failed to load the VIP list:', (error as TwitchApiError).message);
+    }
+  }
+
+  // Fetch the channel's Twitch blocked terms (all pages) into the local matcher
+  async function syncBlockedTerms(): Promise<{ id: string; text: string }[]> {
+    const terms: { id: string; text: string }[] = [];
+    for await (const term of helix.blockedTerms()) {
+      terms.push({ id: term.id, text: term.text });
+    }
+
+    blockedTermList.setTwitchTerms(terms);
+    return terms;
+  }
+
+  async function getShieldModeStatus(): Promise<{ active: boolean; moderator?: string; lastActivatedAt?: Date }> {
+    const status = await helix.getShieldModeStatus();
+    return {
+      active: !!status?.is_active,
+      ...(status?.moderator_login ? { moderator: status.moderator_login } : {}),
+      ...(status?.last_activated_at ? { lastActivatedAt: new Date(status.last_activated_at) } : {})
+    };
+  }
+
+  async function getShieldModeActive(): Promise<boolean> {
+    return (await getShieldModeStatus()).active;
+  }
+
+  async function setShieldModeActive(active: boolean): Promise<void> {
+    await helix.updateShieldModeStatus(active);
+  }
+
+  // Account creation dates for the wave detector, cached since they never change
+  async function lookupAccountCreation(userIds: string[]): Promise<Map<string, Date>> {
+    const missing = Array.from(new Set(userIds)).filter(id => !accountCreation.has(id));
+    if (missing.length > 0) {
+      for (const user of await helix.getUsers({ ids: missing })) {
+        accountCreation.set(user.id, new Date(user.created_at));
+      }
+    }
+
+    const result = new Map<string, Date>();
+    for (const id of userIds) {
+      const created = accountCreation.get(id);
+      if (created) {
+        result.set(id, created);
+      }
+    }
+    return result;
+  }
+
+  // Get recent chat log as formatted strings
+  function getRecentChatLog(n: number = 20): string[] {
+    const messages = recentMessages.slice(-n);
+    return messages.map(m => `${m.username}: ${m.content}`);
+  }
+
+  // Parse an ISO timestamp, or a relative time like "90m", "2h" or "3d" meaning that long ago
+  function parseTimeInput(input: string): Date | null {
+    const relative = input.trim().match(/^(\d+(?:\.\d+)?)\s*(s|m|h|d)$/i);
+    if (relative) {
+      const unitMs = { s: 1000, m: 60 * 1000, h: 60 * 60 * 1000, d: 24 * 60 * 60 * 1000 }[relative[2].toLowerCase() as 's' | 'm' | 'h' | 'd'];
+      return new Date(Date.now() - parseFloat(relative[1]) * unitMs);
+    }
+
+    const date = new Date(input);
+    return isNaN(date.getTime()) ? null : date;
+  }
+
+  // Tool: Send message to Twitch chat
+  server.tool(
+    "sendMessageToChat",
+    "Send message to the Twitch Chat",
+    {
+      message: z.string().describe("The message to send to chat")
+    },
+    async ({ message }) => {
+      try {
+        // Ensure IRC connection is ready
+        const connected = await ensureIrcConnection();
+        if (!connected) {
+          return {
+            content: [{ type: "text", text: `Failed to send message: IRC connection not available` }]
+          };
+        }
+
+        // Send the message to Twitch chat via IRC
+        await tmiClient.say(`#${config.twitchChannel}`, message);
+        
+        // Add to our local message log for analysis
+        addBotMessage(message);
+        
+        return {
+          content: [{ type: "text", text: `Successfully sent message to Twitch chat: ${message}` }]
+        };
+      } catch (error) {
+        const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+        return {
+          content: [{ type: "text", text: `Failed to send message: ${errorMessage}` }]
+        };
+      }
+    }
+  );
+
+  // Tool: Create Twitch Poll
+  server.tool(
+    "createTwitchPoll",
+    "Create a Twitch Poll",
+    {
+      title: z.string().describe("Poll title"),
+      choices: z.string().describe("Comma-separated choices"),
+      duration: z.number().int().describe("Duration in seconds")
+    },
+    async ({ title, choices, duration }) => {
+      try {
+        const choicesArray = choices.split(',').map(c => ({ title: c.trim() }));
+        
+        await helix.createPoll({ title, choices: choicesArray, duration });
+
+        return {
+          content: [{ type: "text", text: "Poll created successfully!" }]
+        };
+      } catch (error) {
+        const err = error as TwitchApiError;
+        return {
+          content: [{ type: "text", text: `Error creating poll: ${err.message}` }]
+        };
+      }
+    }
+  );
+
+  // Tool: Create Twitch Prediction
+  server.tool(
+    "createTwitchPrediction",
+    "Create a Twitch Prediction",
+    {
+      title: z.string().describe("Prediction title"),
+      outcomes: z.string().describe("Comma-separated outcomes"),
+      duration: z.number().int().describe("Duration in seconds")
+    },
+    async ({ title, outcomes, duration }) => {
+      try {
+        const outcomesArray = outcomes.split(',').map(o => ({ title: o.trim() }));
+        
+        await helix.createPrediction({ title, outcomes: outcomesArray, prediction_window: duration });
+
+        return {
+          content: [{ type: "text", text: "Prediction created successfully!" }]
+        };
+      } catch (error) {
+        const err = error as TwitchApiError;
+        return {
+          content: [{ type: "text", text: `Error creating prediction: ${err.message}` }]
+        };
+      }
+    }
+  );
+
+  // Tool: Create Twitch Clip
+  server.tool(
+    "createTwitchClip",
+    "Create a Twitch clip of the current stream",
+    {},
+    async () => {
+      try {
+        const clip = await helix.createClip();
+        
+        const editUrl = clip?.edit_url;
+        const clipUrl = editUrl ? `Clip created successfully! You can view it at: ${editUrl}` : "Clip created successfully!";
+        
         return {
           content: [{ type: "text", text: clipUrl }]
         };
@@ -635,202 +1359,785 @@ export default function createStatelessServer({
     }
   );
 
-  // Tool: Analyze Chat
+  // Tool: Analyze Chat
+  server.tool(
+    "analyzeChat",
+    "Analyze recent Twitch chat messages and provide a summary of topics and activity",
+    {},
+    async () => {
+      const analysis = analyzeChat();
+      return {
+        content: [{ type: "text", text: analysis }]
+      };
+    }
+  );
+
+  // Tool: Get Recent Chat Log
+  server.tool(
+    "getRecentChatLog",
+    "Get the last 20 chat messages for moderation context",
+    {},
+    async () => {
+      const log = getRecentChatLog(20);
+      if (log.length === 0) {
+        return {
+          content: [{ type: "text", text: "No recent chat messages available." }]
+        };
+      }
+      return {
+        content: [{ type: "text", text: log.join('\n') }]
+      };
+    }
+  );
+
+  // Tool: Search Chat History
+  server.tool(
+    "searchChatHistory",
+    "Search stored chat history by user, time range, text or regex, and message flags. Results are newest first and paged.",
+    {
+      username: z.string().optional().describe("Only messages from this login"),
+      userId: z.string().optional().describe("Only messages from this Twitch user ID"),
+      since: z.string().optional().describe("Start of the time range: ISO timestamp or relative like '90m', '2h', '3d' (default: 24h)"),
+      until: z.string().optional().describe("End of the time range: ISO timestamp or relative (default: now)"),
+      text: z.string().optional().describe("Case-insensitive text the message must contain"),
+      regex: z.string().optional().describe("Case-insensitive regular expression the message must match"),
+      flags: z.array(z.enum(['broadcaster', 'mod', 'vip', 'subscriber', 'firstMessage', 'bits'])).optional().describe("Only messages with all of these flags"),
+      limit: z.number().int().min(1).max(200).default(50).describe("Messages per page"),
+      offset: z.number().int().min(0).default(0).describe("Messages to skip (use nextOffset from the previous page)")
+    },
+    async ({ username, userId, since, until, text, regex, flags, limit, offset }) => {
+      if (!chatStore) {
+        return {
+          content: [{ type: "text", text: "Chat history is disabled. Set chatHistory.enabled to store messages." }]
+        };
+      }
+
+      const sinceDate = since ? parseTimeInput(since) : parseTimeInput('24h');
+      const untilDate = until ? parseTimeInput(until) : new Date();
+      if (!sinceDate || !untilDate) {
+        return {
+          content: [{ type: "text", text: "❌ Invalid time. Use an ISO timestamp or a relative time like '90m', '2h' or '3d'." }]
+        };
+      }
+
+      let pattern: RegExp | undefined;
+      if (regex) {
+        try {
+          pattern = new RegExp(regex, 'i');
+        } catch (error) {
+          return {
+            content: [{ type: "text", text: `❌ Invalid regex: ${(error as Error).message}` }]
+          };
+        }
+      }
+
+      try {
+        const result = await chatStore.search({
+          username: username?.replace(/^@/, ''),
+          userId,
+          since: sinceDate,
+          until: untilDate,
+          text,
+          regex: pattern,
+          flags,
+          limit,
+          offset
+        });
+
+        if (result.total === 0) {
+          return {
+            content: [{ type: "text", text: `No messages found between ${sinceDate.toISOString()} and ${untilDate.toISOString()}.` }]
+          };
+        }
+
+        const lines = result.messages.map(m => {
+          const messageFlags = [
+            m.isBroadcaster && 'broadcaster',
+            m.isMod && 'mod',
+            m.isVip && 'vip',
+            m.isSubscriber && 'sub',
+            m.firstMessage && 'first message',
+            m.bits && `${m.bits} bits`
+          ].filter(Boolean);
+          return `[${m.timestamp.toISOString()}] ${m.username}${m.userId ? ` (${m.userId})` : ''}: ${m.content}` +
+            (messageFlags.length > 0 ? ` [${messageFlags.join(', ')}]` : '') +
+            (m.id ? ` {id: ${m.id}}` : '');
+        });
+
+        return {
+          content: [{ type: "text", text: `Showing ${offset + 1}-${offset + result.messages.length} of ${result.total} messages (newest first):\n\n` +
+            lines.join('\n') +
+            (result.nextOffset !== null ? `\n\nMore results: call again with offset ${result.nextOffset}` : '')
+          }]
+        };
+      } catch (error) {
+        const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+        return {
+          content: [{ type: "text", text: `❌ Failed to search chat history: ${errorMessage}` }]
+        };
+      }
+    }
+  );
+
+  // Tool: Timeout User
+  server.tool(
+    "timeoutUser",
+    "Timeout a user in the Twitch chat. If the name doesn't match a chatter, it returns the recent chat log for LLM review; if it matches several, it returns the candidates instead of guessing.",
+    {
+      usernameOrDescriptor: z.string().describe("Username or descriptor to timeout (e.g. 'toxic', 'spammer', or a username)"),
+      reason: z.string().optional().describe("Reason for timeout (optional)")
+    },
+    async ({ usernameOrDescriptor, reason }) => {
+      try {
+        const resolution = resolveModerationTarget(usernameOrDescriptor);
+        if (resolution.status !== 'resolved') {
+          return unresolvedTargetResponse(resolution);
+        }
+
+        const targetUser = resolution.target.username;
+        const userId = resolution.target.userId || await getUserIdFromUsername(targetUser);
+        if (!userId) {
+          return {
+            content: [{ type: "text", text: `Could not resolve user ID for username: ${targetUser}` }]
+          };
+        }
+
+        const timeoutReason = reason || "inappropriate behavior";
+        const duration = guessTimeoutDuration(timeoutReason);
+        
+        await helix.banUser({
+          user_id: userId,
+          reason: timeoutReason,
+          duration
+        });
+        recordStrike(targetUser, userId, 'timeoutUser', timeoutReason, duration);
+
+        return {
+          content: [{ type: "text", text: `Successfully timed out ${targetUser} for ${duration} seconds. Reason: ${timeoutReason}` }]
+        };
+      } catch (error) {
+        const err = error as TwitchApiError;
+        return {
+          content: [{ type: "text", text: `Error timing out user: ${err.message}` }]
+        };
+      }
+    }
+  );
+
+  // Tool: Warn User
+  server.tool(
+    "warnUser",
+    "Warn a user in the Twitch chat. They must acknowledge the warning before chatting again. Falls back to a chat reply if the warning can't be sent.",
+    {
+      usernameOrDescriptor: z.string().describe("Username or descriptor to warn (e.g. 'toxic', 'spammer', or a username)"),
+      reason: z.string().optional().describe("Reason for the warning, shown to the user (optional)")
+    },
+    async ({ usernameOrDescriptor, reason }) => {
+      try {
+        const resolution = resolveModerationTarget(usernameOrDescriptor);
+        if (resolution.status !== 'resolved') {
+          return unresolvedTargetResponse(resolution);
+        }
+
+        const targetUser = resolution.target.username;
+        const userId = resolution.target.userId || await getUserIdFromUsername(targetUser);
+        const warnReason = reason || "please follow the chat rules";
+        const via = await warnChatUser(targetUser, userId, warnReason);
+        recordStrike(targetUser, userId || undefined, 'warnUser', warnReason);
+
+        return {
+          content: [{ type: "text", text: via === 'helix'
+            ? `Successfully warned ${targetUser}. Reason: ${warnReason}`
+            : `Could not send a Twitch warning, so ${targetUser} was warned with a chat reply. Reason: ${warnReason}` }]
+        };
+      } catch (error) {
+        const err = error as TwitchApiError;
+        return {
+          content: [{ type: "text", text: `Error warning user: ${err.message}` }]
+        };
+      }
+    }
+  );
+
+  // Tool: Ban User
+  server.tool(
+    "banUser",
+    "Ban a user from the Twitch chat. If the name doesn't match a chatter, it returns the recent chat log for LLM review; if it matches several, it returns the candidates instead of guessing.",
+    {
+      usernameOrDescriptor: z.string().describe("Username or descriptor to ban (e.g. 'toxic', 'spammer', or a username)"),
+      reason: z.string().optional().describe("Reason for ban (optional)")
+    },
+    async ({ usernameOrDescriptor, reason }) => {
+      try {
+        const resolution = resolveModerationTarget(usernameOrDescriptor);
+        if (resolution.status !== 'resolved') {
+          return unresolvedTargetResponse(resolution);
+        }
+
+        const targetUser = resolution.target.username;
+        const userId = resolution.target.userId || await getUserIdFromUsername(targetUser);
+        if (!userId) {
+          return {
+            content: [{ type: "text", text: `Could not resolve user ID for username: ${targetUser}` }]
+          };
+        }
+
+        const banReason = reason || "severe violation of chat rules";
+        
+        await helix.banUser({
+          user_id: userId,
+          reason: banReason
+        });
+        recordStrike(targetUser, userId, 'banUser', banReason);
+
+        return {
+          content: [{ type: "text", text: `Successfully banned ${targetUser}. Reason: ${banReason}` }]
+        };
+      } catch (error) {
+        const err = error as TwitchApiError;
+        return {
+          content: [{ type: "text", text: `Error banning user: ${err.message}` }]
+        };
+      }
+    }
+  );
+
+  // Tool: Get User Strikes
+  server.tool(
+    "getUserStrikes",
+    "Show a user's active strikes and the punishment their next offense would get. Without a username, lists every user with active strikes.",
+    {
+      username: z.string().optional().describe("Username to look up (optional)")
+    },
+    async ({ username }) => {
+      const ladder = config.autonomous.strikeLadder;
+      const describeStep = (step: { action: string; duration?: number }) =>
+        step.action === 'timeout' && step.duration ? `timeout (${step.duration}s)` : step.action;
+
+      if (username) {
+        const summary = strikeLedger.getSummary(username.trim());
+        const lines = summary.activeStrikes.map((strike, index) =>
+          `${index + 1}. ${strike.timestamp.toISOString()} - ${strike.action}${strike.duration ? ` (${strike.duration}s)` : ''}: ${strike.reason}`
+        );
+        return {
+          content: [{ type: "text", text: `Strikes for ${summary.username}${summary.userId ? ` (ID ${summary.userId})` : ''}:\n\n` +
+            (lines.length > 0 ? lines.join('\n') : 'No active strikes.') + '\n\n' +
+            `Next offense: ${describeStep(summary.nextStep)}\n` +
+            (summary.nextDecay ? `Oldest strike expires: ${summary.nextDecay.toISOString()}\n` : '') +
+            `Strike ladder: ${ladder.enabled ? 'enabled' : 'disabled'}, strikes decay after ${ladder.decayHours}h`
+          }]
+        };
+      }
+
+      const summaries = strikeLedger.getAllSummaries();
+      if (summaries.length === 0) {
+        return {
+          content: [{ type: "text", text: "No users have active strikes." }]
+        };
+      }
+
+      return {
+        content: [{ type: "text", text: summaries.map(summary =>
+          `${summary.username}: ${summary.activeStrikes.length} active strike(s), next offense: ${describeStep(summary.nextStep)}`
+        ).join('\n') }]
+      };
+    }
+  );
+
+  // Tool: Get User Profile
+  server.tool(
+    "getUserProfile",
+    "Profile a chatter: recent messages, strikes, past autonomous actions and feedback, account age, follow age and current ban/timeout status",
+    {
+      usernameOrDescriptor: z.string().describe("Username or display name of the chatter")
+    },
+    async ({ usernameOrDescriptor }) => {
+      const resolution = resolveModerationTarget(usernameOrDescriptor);
+      if (resolution.status !== 'resolved') {
+        return unresolvedTargetResponse(resolution);
+      }
+
+      try {
+        const profile = await buildUserProfile(resolution.target.username, resolution.target.userId);
+        const describeDate = (date: Date) => `${date.toISOString()} (${formatAge(date)} ago)`;
+        const status = profile.moderationStatus === undefined ? 'unknown'
+          : !profile.moderationStatus ? 'not banned or timed out'
+          : profile.moderationStatus.banned ? 'banned'
+          : `timed out until ${profile.moderationStatus.timeoutExpiresAt!.toISOString()}`;
+
+        const messages = profile.recentMessages.map(m => `[${m.timestamp.toISOString()}] ${m.content}`);
+        const strikes = profile.activeStrikes.map(strike =>
+          `${strike.timestamp.toISOString()} - ${strike.action}${strike.duration ? ` (${strike.duration}s)` : ''}: ${strike.reason}`
+        );
+        const actions = profile.pastActions.map(entry =>
+          `${entry.timestamp.toISOString()} - ${entry.actionTaken.action}${entry.shadow ? ' (shadow)' : ''}: ${entry.actionTaken.reason}` +
+          (entry.outcome?.sideEffects?.length ? ` [${entry.outcome.sideEffects.join(', ')}]` : '') +
+          (entry.userFeedback ? ` - rated ${entry.userFeedback.rating}/5${entry.userFeedback.comment ? ` "${entry.userFeedback.comment}"` : ''}` : '')
+        );
+
+        return {
+          content: [{ type: "text", text: `👤 **${profile.displayName || profile.username}**` +
+            `${profile.displayName && profile.displayName.toLowerCase() !== profile.username ? ` (${profile.username})` : ''}` +
+            `${profile.userId ? ` - ID ${profile.userId}` : ''}\n\n` +
+            `Account created: ${profile.accountCreatedAt ? describeDate(profile.accountCreatedAt) : 'unknown'}\n` +
+            `Following since: ${profile.followedAt ? describeDate(profile.followedAt) : profile.followedAt === null ? 'not following' : 'unknown'}\n` +
+            `Moderation status: ${status}${profile.moderationStatus?.reason ? ` (${profile.moderationStatus.reason})` : ''}\n\n` +
+            `**Recent messages (${messages.length}):**\n${messages.length > 0 ? messages.join('\n') : 'None in the chat buffer.'}\n\n` +
+            `**Active strikes (${strikes.length}):**\n${strikes.length > 0 ? strikes.join('\n') : 'None.'}\n\n` +
+            `**Autonomous actions (${actions.length}):**\n${actions.length > 0 ? actions.join('\n') : 'None recorded.'}` +
+            (profile.lookupErrors.length > 0 ? `\n\n⚠️ Some Twitch lookups failed: ${profile.lookupErrors.join('; ')}` : '')
+          }]
+        };
+      } catch (error) {
+        const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+        return {
+          content: [{ type: "text", text: `❌ Failed to build user profile: ${errorMessage}` }]
+        };
+      }
+    }
+  );
+
+  // Tool: Unban User
+  server.tool(
+    "unbanUser",
+    "Lift a ban on a user in the Twitch chat",
+    {
+      username: z.string().describe("Username to unban")
+    },
+    async ({ username }) => {
+      try {
+        const userId = await getUserIdFromUsername(username.trim());
+        if (!userId) {
+          return {
+            content: [{ type: "text", text: `Could not resolve user ID for username: ${username}` }]
+          };
+        }
+
+        await liftBan(userId);
+
+        return {
+          content: [{ type: "text", text: `Successfully unbanned ${username}` }]
+        };
+      } catch (error) {
+        const err = error as TwitchApiError;
+        return {
+          content: [{ type: "text", text: `Error unbanning user: ${err.message}` }]
+        };
+      }
+    }
+  );
+
+  // Tool: Remove Timeout
+  server.tool(
+    "removeTimeout",
+    "Remove an active timeout from a user in the Twitch chat",
+    {
+      username: z.string().describe("Username whose timeout should be removed")
+    },
+    async ({ username }) => {
+      try {
+        const userId = await getUserIdFromUsername(username.trim());
+        if (!userId) {
+          return {
+            content: [{ type: "text", text: `Could not resolve user ID for username: ${username}` }]
+          };
+        }
+
+        await liftBan(userId);
+
+        return {
+          content: [{ type: "text", text: `Successfully removed the timeout for ${username}` }]
+        };
+      } catch (error) {
+        const err = error as TwitchApiError;
+        return {
+          content: [{ type: "text", text: `Error removing timeout: ${err.message}` }]
+        };
+      }
+    }
+  );
+
+  // Tool: Delete Chat Message
+  server.tool(
+    "deleteChatMessage",
+    "Delete a single chat message without timing out or banning the sender. Provide a message ID, or a username to delete their most recent message.",
+    {
+      messageId: z.string().optional().describe("ID of the message to delete (from IRC tags)"),
+      usernameOrDescriptor: z.string().optional().describe("Username whose most recent message should be deleted")
+    },
+    async ({ messageId, usernameOrDescriptor }) => {
+      try {
+        let targetUser: string | null = null;
+        if (!messageId && usernameOrDescriptor) {
+          const resolution = resolveModerationTarget(usernameOrDescriptor);
+          if (resolution.status !== 'resolved') {
+            return unresolvedTargetResponse(resolution);
+          }
+          targetUser = resolution.target.username;
+        }
+        const targetMessageId = messageId || (targetUser ? findLatestMessageId(targetUser) : null);
+
+        if (!targetMessageId) {
+          const log = getRecentChatLog(20);
+          return {
+            content: [{ type: "text", text: `Could not find a message to delete. Here are the last 20 chat messages:\n${log.join('\n')}` }]
+          };
+        }
+
+        await deleteMessage(targetMessageId);
+
+        return {
+          content: [{ type: "text", text: `Successfully deleted message ${targetMessageId}${targetUser ? ` from ${targetUser}` : ''}` }]
+        };
+      } catch (error) {
+        const err = error as TwitchApiError;
+        return {
+          content: [{ type: "text", text: `Error deleting message: ${err.message}` }]
+        };
+      }
+    }
+  );
+
+  // Tool: Update Stream Title
+  server.tool(
+    "updateStreamTitle",
+    "Update the stream title",
+    {
+      title: z.string().describe("The new title for the stream")
+    },
+    async ({ title }) => {
+      try {
+        await helix.modifyChannel({
+          title: title.replace(/"/g, '\\"') // Escape quotes
+        });
+
+        return {
+          content: [{ type: "text", text: `Successfully updated stream title to: ${title}` }]
+        };
+      } catch (error) {
+        const err = error as TwitchApiError;
+        return {
+          content: [{ type: "text", text: `Failed to update stream title: ${err.message}` }]
+        };
+      }
+    }
+  );
+
+  // Tool: Update Stream Category
+  server.tool(
+    "updateStreamCategory",
+    "Update the game category of the stream",
+    {
+      category: z.string().describe("The new game category, e.g. 'Fortnite'")
+    },
+    async ({ category }) => {
+      try {
+        // First, search for the category to get its ID
+        const categories = await helix.searchCategories(category);
+        
+        if (categories.length === 0) {
+          return {
+            content: [{ type: "text", text: `Could not find a Twitch category named '${category}'.` }]
+          };
+        }
+
+        const categoryId = categories[0].id;
+        
+        // Update the channel with the new game_id
+        await helix.modifyChannel({ game_id: categoryId });
+
+        return {
+          content: [{ type: "text", text: `Successfully updated stream category to: ${category}` }]
+        };
+      } catch (error) {
+        const err = error as TwitchApiError;
+        return {
+          content: [{ type: "text", text: `Failed to update stream category: ${err.message}` }]
+        };
+      }
+    }
+  );
+
+  // ===== AUTONOMOUS MONITORING TOOLS =====
+
+  // Tool: List AutoMod Queue
   server.tool(
-    "analyzeChat",
-    "Analyze recent Twitch chat messages and provide a summary of topics and activity",
+    "listAutoModQueue",
+    "List chat messages AutoMod is holding for review, oldest first",
     {},
     async () => {
-      const analysis = analyzeChat();
+      const held = autoModQueue.list();
+      const stats = autoModQueue.getStats();
+      if (held.length === 0) {
+        return {
+          content: [{ type: "text", text: `No messages are held by AutoMod. (approved ${stats.approved}, denied ${stats.denied}, expired ${stats.expired} so far)` }]
+        };
+      }
+
       return {
-        content: [{ type: "text", text: analysis }]
+        content: [{ type: "text", text: `🛂 ${held.length} held message(s):\n\n` + held.map(m =>
+          `- [${m.messageId}] ${m.user.displayName || m.user.login}: "${m.text}"\n  ` +
+          (m.reason === 'blocked_term'
+            ? `blocked term${m.blockedTerms.length > 0 ? ` (${m.blockedTerms.join(', ')})` : ''}`
+            : `${m.category || 'unknown category'}, level ${m.level ?? '?'}`) +
+          `, held ${Math.round((Date.now() - m.heldAt.getTime()) / 60000)} min ago`
+        ).join('\n')
+        }]
       };
     }
   );
 
-  // Tool: Get Recent Chat Log
+  // Tool: Resolve AutoMod Message
   server.tool(
-    "getRecentChatLog",
-    "Get the last 20 chat messages for moderation context",
-    {},
-    async () => {
-      const log = getRecentChatLog(20);
-      if (log.length === 0) {
+    "resolveAutoModMessage",
+    "Approve or deny a chat message held by AutoMod",
+    {
+      messageId: z.string().describe("ID of the held message (see listAutoModQueue)"),
+      action: z.enum(['approve', 'deny']).describe("Approve to post the message in chat, deny to discard it")
+    },
+    async ({ messageId, action }) => {
+      try {
+        const message = await autoModQueue.resolve(messageId, action === 'approve' ? 'ALLOW' : 'DENY');
         return {
-          content: [{ type: "text", text: "No recent chat messages available." }]
+          content: [{ type: "text", text: `${action === 'approve' ? 'Approved' : 'Denied'} held message ${messageId}` +
+            (message ? ` from ${message.user.login}: "${message.text}"` : '') }]
+        };
+      } catch (error) {
+        const err = error as TwitchApiError;
+        return {
+          content: [{ type: "text", text: `Error resolving held message: ${err.message}` }]
         };
       }
+    }
+  );
+
+  // Tool: List Blocked Terms
+  server.tool(
+    "listBlockedTerms",
+    "List the channel's Twitch blocked terms and the local blocked terms used by the autonomous analyzer",
+    {
+      filter: z.string().optional().describe("Only list terms containing this text (optional)")
+    },
+    async ({ filter }) => {
+      let syncError = '';
+      try {
+        await syncBlockedTerms();
+      } catch (error) {
+        syncError = `⚠️ Could not refresh the Twitch list (${(error as TwitchApiError).message}), showing the last synced terms.\n\n`;
+      }
+
+      const matchesFilter = (term: BlockedTerm) => !filter || term.pattern.toLowerCase().includes(filter.toLowerCase());
+      const twitchTerms = blockedTermList.getTwitchTerms().filter(matchesFilter);
+      const localTerms = blockedTermList.getLocalTerms().filter(matchesFilter);
+
       return {
-        content: [{ type: "text", text: log.join('\n') }]
+        content: [{ type: "text", text: syncError +
+          `🚫 Twitch blocked terms (${twitchTerms.length}):\n` +
+          (twitchTerms.length > 0 ? twitchTerms.map(t => `- ${t.pattern} (id ${t.id})`).join('\n') : '- none') +
+          `\n\nLocal blocked terms (${localTerms.length}):\n` +
+          (localTerms.length > 0
+            ? localTerms.map(t => `- ${t.pattern} (${t.type}, ${t.category}, severity ${t.severity})`).join('\n')
+            : '- none')
+        }]
       };
     }
   );
 
-  // Tool: Timeout User
+  // Tool: Add Blocked Term
   server.tool(
-    "timeoutUser",
-    "Timeout a user in the Twitch chat. If no username is provided, it will return the recent chat log for LLM review.",
+    "addBlockedTerm",
+    "Block a term on Twitch, or add a local wildcard/regex term that the autonomous analyzer flags as toxicity or spam",
     {
-      usernameOrDescriptor: z.string().describe("Username or descriptor to timeout (e.g. 'toxic', 'spammer', or a username)"),
-      reason: z.string().optional().describe("Reason for timeout (optional)")
+      term: z.string().min(2).max(500).describe("Term to block; `*` matches any letters. For local regex terms, a regular expression"),
+      scope: z.enum(['twitch', 'local']).default('twitch').describe("'twitch' blocks the term in chat, 'local' only flags it for the autonomous analyzer"),
+      type: z.enum(['wildcard', 'regex']).default('wildcard').describe("How a local term is matched (optional)"),
+      category: z.enum(['toxicity', 'spam']).default('toxicity').describe("What a local match counts as (optional)"),
+      severity: z.number().int().min(1).max(10).default(7).describe("Severity 1-10 of a local match (optional)")
     },
-    async ({ usernameOrDescriptor, reason }) => {
+    async ({ term, scope, type, category, severity }) => {
       try {
-        const targetUser = resolveModerationTarget(usernameOrDescriptor);
-        
-        if (!targetUser) {
-          const log = getRecentChatLog(20);
+        if (scope === 'local') {
+          await blockedTermsLoaded;
+          const added = await blockedTermList.addLocal({ pattern: term, type, category, severity });
           return {
-            content: [{ type: "text", text: `No explicit username provided. Here are the last 20 chat messages:\n${log.join('\n')}` }]
+            content: [{ type: "text", text: `Added local blocked term "${added.pattern}" (${added.type}, ${added.category}, severity ${added.severity}).` }]
           };
         }
 
-        const userId = await getUserIdFromUsername(targetUser);
-        if (!userId) {
+        if (type === 'regex') {
           return {
-            content: [{ type: "text", text: `Could not resolve user ID for username: ${targetUser}` }]
+            content: [{ type: "text", text: "Twitch blocked terms don't support regular expressions; use scope 'local' for a regex term." }]
           };
         }
 
-        const timeoutReason = reason || "inappropriate behavior";
-        const duration = guessTimeoutDuration(timeoutReason);
-        
-        await makeTwitchApiCall('/moderation/bans', 'POST', {
-          broadcaster_id: config.twitchBroadcasterId,
-          moderator_id: config.twitchBroadcasterId,
-          data: {
-            user_id: userId,
-            reason: timeoutReason,
-            duration
-          }
-        });
+        const created = await helix.addBlockedTerm(term);
+        await syncBlockedTerms().catch(() => undefined);
 
         return {
-          content: [{ type: "text", text: `Successfully timed out ${targetUser} for ${duration} seconds. Reason: ${timeoutReason}` }]
+          content: [{ type: "text", text: `Blocked "${created?.text || term}" on Twitch${created?.id ? ` (id ${created.id})` : ''}.` }]
         };
       } catch (error) {
         const err = error as TwitchApiError;
         return {
-          content: [{ type: "text", text: `Error timing out user: ${err.message}` }]
+          content: [{ type: "text", text: `Error adding blocked term: ${err.message}` }]
         };
       }
     }
   );
 
-  // Tool: Ban User
+  // Tool: Remove Blocked Term
   server.tool(
-    "banUser",
-    "Ban a user from the Twitch chat. If no username is provided, it will return the recent chat log for LLM review.",
+    "removeBlockedTerm",
+    "Remove a Twitch blocked term (by id or text) or a local blocked term (by its pattern)",
     {
-      usernameOrDescriptor: z.string().describe("Username or descriptor to ban (e.g. 'toxic', 'spammer', or a username)"),
-      reason: z.string().optional().describe("Reason for ban (optional)")
+      term: z.string().describe("Term text, Twitch term id, or local pattern to remove"),
+      scope: z.enum(['twitch', 'local']).default('twitch').describe("Where to remove the term from")
     },
-    async ({ usernameOrDescriptor, reason }) => {
+    async ({ term, scope }) => {
       try {
-        const targetUser = resolveModerationTarget(usernameOrDescriptor);
-        
-        if (!targetUser) {
-          const log = getRecentChatLog(20);
+        if (scope === 'local') {
+          await blockedTermsLoaded;
+          const removed = await blockedTermList.removeLocal(term);
           return {
-            content: [{ type: "text", text: `No explicit username provided. Here are the last 20 chat messages:\n${log.join('\n')}` }]
+            content: [{ type: "text", text: removed ? `Removed local blocked term "${removed.pattern}".` : `No local blocked term "${term}" found.` }]
           };
         }
 
-        const userId = await getUserIdFromUsername(targetUser);
-        if (!userId) {
+        const terms = await syncBlockedTerms();
+        const match = terms.find(t => t.id === term) || terms.find(t => t.text.toLowerCase() === term.toLowerCase());
+        if (!match) {
           return {
-            content: [{ type: "text", text: `Could not resolve user ID for username: ${targetUser}` }]
+            content: [{ type: "text", text: `No Twitch blocked term "${term}" found.` }]
           };
         }
 
-        const banReason = reason || "severe violation of chat rules";
-        
-        await makeTwitchApiCall('/moderation/bans', 'POST', {
-          broadcaster_id: config.twitchBroadcasterId,
-          moderator_id: config.twitchBroadcasterId,
-          data: {
-            user_id: userId,
-            reason: banReason
-          }
-        });
+        await helix.removeBlockedTerm(match.id);
+        await syncBlockedTerms().catch(() => undefined);
 
         return {
-          content: [{ type: "text", text: `Successfully banned ${targetUser}. Reason: ${banReason}` }]
+          content: [{ type: "text", text: `Removed "${match.text}" from the Twitch blocked terms.` }]
         };
       } catch (error) {
         const err = error as TwitchApiError;
         return {
-          content: [{ type: "text", text: `Error banning user: ${err.message}` }]
+          content: [{ type: "text", text: `Error removing blocked term: ${err.message}` }]
         };
       }
     }
   );
 
-  // Tool: Update Stream Title
+  // Tool: Get Shield Mode Status
   server.tool(
-    "updateStreamTitle",
-    "Update the stream title",
-    {
-      title: z.string().describe("The new title for the stream")
-    },
-    async ({ title }) => {
+    "getShieldModeStatus",
+    "Check whether Shield Mode is on, who turned it on last, and when",
+    {},
+    async () => {
       try {
-        await makeTwitchApiCall('/channels', 'PATCH', {
-          broadcaster_id: config.twitchBroadcasterId,
-          title: title.replace(/"/g, '\\"') // Escape quotes
-        });
-
+        const status = await getShieldModeStatus();
         return {
-          content: [{ type: "text", text: `Successfully updated stream title to: ${title}` }]
+          content: [{ type: "text", text: `🛡️ Shield Mode is ${status.active ? 'ON' : 'off'}.` +
+            (status.lastActivatedAt
+              ? ` Last turned on ${status.lastActivatedAt.toISOString()}${status.moderator ? ` by ${status.moderator}` : ''}.`
+              : '')
+          }]
         };
       } catch (error) {
         const err = error as TwitchApiError;
         return {
-          content: [{ type: "text", text: `Failed to update stream title: ${err.message}` }]
+          content: [{ type: "text", text: `Error getting Shield Mode status: ${err.message}` }]
         };
       }
     }
   );
 
-  // Tool: Update Stream Category
+  // Tool: Set Shield Mode
   server.tool(
-    "updateStreamCategory",
-    "Update the game category of the stream",
+    "setShieldMode",
+    "Turn Shield Mode on or off",
     {
-      category: z.string().describe("The new game category, e.g. 'Fortnite'")
+      active: z.boolean().describe("true to turn Shield Mode on, false to turn it off")
     },
-    async ({ category }) => {
+    async ({ active }) => {
       try {
-        // First, search for the category to get its ID
-        const searchResponse = await makeTwitchApiCall(`/search/categories?query=${encodeURIComponent(category)}`);
-        
-        if (!searchResponse.data || searchResponse.data.length === 0) {
-          return {
-            content: [{ type: "text", text: `Could not find a Twitch category named '${category}'.` }]
-          };
-        }
+        await setShieldModeActive(active);
+        autoMonitor?.shieldModeChanged(active);
+        return {
+          content: [{ type: "text", text: `🛡️ Shield Mode turned ${active ? 'on' : 'off'}.` }]
+        };
+      } catch (error) {
+        const err = error as TwitchApiError;
+        return {
+          content: [{ type: "text", text: `Error setting Shield Mode: ${err.message}` }]
+        };
+      }
+    }
+  );
 
-        const categoryId = searchResponse.data[0].id;
-        
-        // Update the channel with the new game_id
-        await makeTwitchApiCall('/channels', 'PATCH', {
-          broadcaster_id: config.twitchBroadcasterId,
-          game_id: categoryId
-        });
+  // Tool: Get Chat Settings
+  server.tool(
+    "getChatSettings",
+    "Get the current chat modes (slow, followers-only, subscriber-only, emote-only, unique chat) and any scheduled reverts",
+    {},
+    async () => {
+      try {
+        const settings = await chatSettings.get();
+        const reverts = chatSettings.getScheduledReverts();
 
         return {
-          content: [{ type: "text", text: `Successfully updated stream category to: ${category}` }]
+          content: [{ type: "text", text: `💬 Chat settings: ${describeChatSettings(settings)}` +
+            (reverts.length > 0
+              ? `\n\nScheduled reverts:\n` + reverts.map(r =>
+                `- ${describeChatSettings({ [r.mode]: r.value })} at ${r.revertAt.toISOString()}`
+              ).join('\n')
+              : '')
+          }]
         };
       } catch (error) {
         const err = error as TwitchApiError;
         return {
-          content: [{ type: "text", text: `Failed to update stream category: ${err.message}` }]
+          content: [{ type: "text", text: `Error getting chat settings: ${err.message}` }]
         };
       }
     }
   );
 
-  // ===== AUTONOMOUS MONITORING TOOLS =====
+  // Tool: Update Chat Settings
+  server.tool(
+    "updateChatSettings",
+    "Change chat modes, optionally only for a while (e.g. slow mode for 10 minutes). Modes left out stay as they are.",
+    {
+      slowMode: z.boolean().optional().describe("Turn slow mode on or off"),
+      slowModeSeconds: z.number().int().min(3).max(120).optional().describe("Seconds between messages in slow mode (turns it on)"),
+      followersOnly: z.boolean().optional().describe("Turn followers-only mode on or off"),
+      followersOnlyMinutes: z.number().int().min(0).max(129600).optional().describe("Required follow age in minutes (turns followers-only mode on)"),
+      subscribersOnly: z.boolean().optional().describe("Turn subscriber-only mode on or off"),
+      emoteOnly: z.boolean().optional().describe("Turn emote-only mode on or off"),
+      uniqueChat: z.boolean().optional().describe("Turn unique chat mode on or off"),
+      revertAfterMinutes: z.number().positive().optional().describe("Restore the changed modes after this many minutes (optional)")
+    },
+    async ({ revertAfterMinutes, ...parameters }) => {
+      const changes = chatSettingsChanges(parameters);
+      if (Object.keys(changes).length === 0) {
+        return {
+          content: [{ type: "text", text: "No chat settings to change." }]
+        };
+      }
+
+      try {
+        const { revertAt } = await chatSettings.update(changes, revertAfterMinutes);
+        return {
+          content: [{ type: "text", text: `Chat settings updated: ${describeChatSettings(changes)}` +
+            (revertAt ? `. Reverting at ${revertAt.toISOString()}.` : '')
+          }]
+        };
+      } catch (error) {
+        const err = error as TwitchApiError;
+        return {
+          content: [{ type: "text", text: `Error updating chat settings: ${err.message}` }]
+        };
+      }
+    }
+  );
 
   // Tool: Start Autonomous Monitoring
   server.tool(
@@ -852,7 +2159,8 @@ export default function createStatelessServer({
           content: [{ type: "text", text: `✅ Autonomous monitoring started successfully!\n\n` +
             `- Status: ${state.isActive ? 'Active' : 'Inactive'}\n` +
             `- Monitoring interval: ${config.autonomous.monitoringInterval}ms\n` +
-            `- Recent actions: ${state.recentActions.length}`
+            `- Recent actions: ${state.recentActions.length}` +
+            (config.autonomous.shadowMode ? `\n- Shadow mode: actions are logged and recorded, not executed` : '')
           }]
         };
       } catch (error) {
@@ -951,7 +2259,10 @@ export default function createStatelessServer({
         const stateReport = `🤖 **Autonomous Monitoring State**\n\n` +
           `**Status:** ${state.isActive ? '🟢 Active' : '🔴 Inactive'}\n` +
           `**Last Analysis:** ${state.lastAnalysis.toISOString()}\n` +
-          `**Recent Actions:** ${state.recentActions.length}\n\n` +
+          `**Recent Actions:** ${state.recentActions.length}\n` +
+          state.recentActions.slice(-10).map(action =>
+            `- \`${action.id}\` ${action.timestamp.toISOString()} ${action.action}: ${action.reason}\n`
+          ).join('') + `\n` +
           `**📈 Today's Statistics:**\n` +
           `- Actions taken: ${state.statistics.actionsToday}\n` +
           `- Success rate: ${(state.statistics.successRate * 100).toFixed(1)}%\n` +
@@ -1002,12 +2313,12 @@ export default function createStatelessServer({
     "addMonitoringFeedback",
     "Provide feedback on an autonomous action to help improve the system's learning",
     {
-      actionTimestamp: z.string().describe("ISO timestamp of the action to provide feedback for"),
+      actionId: z.string().describe("Id of the action to provide feedback for (shown in the action log and getMonitoringState)"),
       rating: z.number().int().min(1).max(5).describe("Rating from 1 (poor) to 5 (excellent)"),
       comment: z.string().optional().describe("Optional comment about the action"),
       source: z.enum(['chat', 'manual', 'streamer']).default('manual').describe("Source of the feedback")
     },
-    async ({ actionTimestamp, rating, comment, source }) => {
+    async ({ actionId, rating, comment, source }) => {
       try {
         if (!autoMonitor) {
           return {
@@ -1015,15 +2326,8 @@ export default function createStatelessServer({
           };
         }
 
-        const timestamp = new Date(actionTimestamp);
-        if (isNaN(timestamp.getTime())) {
-          return {
-            content: [{ type: "text", text: "❌ Invalid timestamp format. Please use ISO format (e.g., 2023-12-01T10:30:00Z)." }]
-          };
-        }
-
         const success = await autoMonitor.addUserFeedback(
-          timestamp,
+          actionId,
           rating as 1 | 2 | 3 | 4 | 5,
           comment,
           source
@@ -1040,7 +2344,7 @@ export default function createStatelessServer({
           };
         } else {
           return {
-            content: [{ type: "text", text: "❌ Failed to record feedback. The action timestamp may not be found." }]
+            content: [{ type: "text", text: `❌ Failed to record feedback. No recent action with id ${actionId} was found.` }]
           };
         }
       } catch (error) {
@@ -1052,6 +2356,201 @@ export default function createStatelessServer({
     }
   );
 
+  // Tool: List Pending Actions
+  server.tool(
+    "listPendingActions",
+    "List autonomous actions that are waiting for approval",
+    {},
+    async () => {
+      try {
+        if (!autoMonitor) {
+          return {
+            content: [{ type: "text", text: "AutonomousMonitor is not initialized." }]
+          };
+        }
+
+        const pending = autoMonitor.getPendingActions();
+        if (pending.length === 0) {
+          return {
+            content: [{ type: "text", text: "No actions are waiting for approval." }]
+          };
+        }
+
+        const list = pending.map(item =>
+          `**#${item.id}** ${item.decision.action} (${item.riskLevel} risk, confidence: ${Math.round(item.decision.confidence * 100)}%)\n` +
+          `- Parameters: ${JSON.stringify(item.decision.parameters)}\n` +
+          `- Reason: ${item.decision.reason}\n` +
+          `- Held because: ${item.holdReason}\n` +
+          `- Expires: ${item.expiresAt.toISOString()}`
+        ).join('\n\n');
+
+        return {
+          content: [{ type: "text", text: `⏳ **Pending Actions (${pending.length}):**\n\n${list}` }]
+        };
+      } catch (error) {
+        const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+        return {
+          content: [{ type: "text", text: `❌ Failed to list pending actions: ${errorMessage}` }]
+        };
+      }
+    }
+  );
+
+  // Tool: Approve Action
+  server.tool(
+    "approveAction",
+    "Approve and execute an autonomous action that is waiting for approval",
+    {
+      id: z.string().describe("ID of the pending action (from listPendingActions)"),
+      comment: z.string().optional().describe("Optional comment recorded with the approval")
+    },
+    async ({ id, comment }) => {
+      try {
+        if (!autoMonitor) {
+          return {
+            content: [{ type: "text", text: "AutonomousMonitor is not initialized." }]
+          };
+        }
+
+        const result = await autoMonitor.approveAction(id.replace(/^#/, ''), comment);
+        if (!result.success) {
+          return {
+            content: [{ type: "text", text: `❌ Failed to approve action #${id}: ${result.error}` }]
+          };
+        }
+
+        return {
+          content: [{ type: "text", text: `✅ Approved and executed ${result.decision!.action}: ${result.decision!.reason}` }]
+        };
+      } catch (error) {
+        const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+        return {
+          content: [{ type: "text", text: `❌ Failed to approve action: ${errorMessage}` }]
+        };
+      }
+    }
+  );
+
+  // Tool: Reject Action
+  server.tool(
+    "rejectAction",
+    "Reject an autonomous action that is waiting for approval",
+    {
+      id: z.string().describe("ID of the pending action (from listPendingActions)"),
+      comment: z.string().optional().describe("Optional reason recorded with the rejection")
+    },
+    async ({ id, comment }) => {
+      try {
+        if (!autoMonitor) {
+          return {
+            content: [{ type: "text", text: "AutonomousMonitor is not initialized." }]
+          };
+        }
+
+        const result = await autoMonitor.rejectAction(id.replace(/^#/, ''), comment);
+        if (!result.success) {
+          return {
+            content: [{ type: "text", text: `❌ Failed to reject action #${id}: ${result.error}` }]
+          };
+        }
+
+        return {
+          content: [{ type: "text", text: `🚫 Rejected ${result.decision!.action}. The rejection was recorded as feedback.` }]
+        };
+      } catch (error) {
+        const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+        return {
+          content: [{ type: "text", text: `❌ Failed to reject action: ${errorMessage}` }]
+        };
+      }
+    }
+  );
+
+  // Tool: End Raid Defense
+  server.tool(
+    "endRaidDefense",
+    "End an automatic raid lockdown before its cool-down, restoring the previous chat modes and Shield Mode",
+    {},
+    async () => {
+      const status = raidDefense.getStatus();
+      if (!status.active) {
+        return {
+          content: [{ type: "text", text: "No raid lockdown is active." }]
+        };
+      }
+
+      try {
+        const reverted = await raidDefense.revert();
+        return {
+          content: [{ type: "text", text: `🛡️ Raid lockdown ended.` +
+            (reverted.length > 0 ? ` Reverted: ${reverted.join(', ')}.` : '') +
+            (status.timedOut.length > 0 ? ` ${status.timedOut.length} timed-out chatter(s) stay timed out until ${status.revertAt!.toISOString()}.` : '')
+          }]
+        };
+      } catch (error) {
+        const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+        return {
+          content: [{ type: "text", text: `❌ Failed to end raid lockdown: ${errorMessage}` }]
+        };
+      }
+    }
+  );
+
+  // Tool: Get Auth Status
+  server.tool(
+    "getAuthStatus",
+    "Validate the Twitch token and list its expiry, its scopes and the tools it lacks scopes for",
+    {},
+    async () => {
+      try {
+        const status = await twitchAuth.validate();
+        if (status.valid === null) {
+          return {
+            content: [{ type: "text", text: `❓ Could not validate the Twitch token: ${status.error || 'unknown error'}` }]
+          };
+        }
+        if (!status.valid) {
+          return {
+            content: [{ type: "text", text: `❌ The Twitch token is invalid or expired.` +
+              (status.canRefresh ? ` Refreshing it failed: ${status.error || 'unknown error'}` : ' Configure twitchRefreshToken and twitchClientSecret to refresh it automatically.') +
+              ` All Twitch tools are disabled for the agent.`
+            }]
+          };
+        }
+
+        const missing = Object.keys(TOOL_SCOPES)
+          .filter(tool => twitchAuth.toolUnavailableReason(tool, requiredScopes(tool)))
+          .map(tool => ({ tool, scopes: twitchAuth.missingScopes(tool, requiredScopes(tool)) }));
+        const degraded = Object.keys(TOOL_SCOPES)
+          .map(tool => ({ tool, reason: twitchAuth.toolDegradedReason(tool) }))
+          .filter(entry => entry.reason);
+        const lines = [
+          `🔑 **Twitch token for ${status.login || 'unknown user'}${status.userId ? ` (ID ${status.userId})` : ''}:**`,
+          `- Expires: ${status.expiresAt ? `in ${formatAge(new Date(), status.expiresAt)} (${status.expiresAt.toISOString()})` : 'never'}`,
+          `- Refresh: ${status.canRefresh ? 'configured' : 'not configured'}${status.lastRefreshed ? `, last refreshed ${status.lastRefreshed.toISOString()}` : ''}`,
+          `- Scopes: ${status.scopes.length > 0 ? status.scopes.join(', ') : 'none'}`,
+          '',
+          missing.length > 0
+            ? `**Tools missing scopes** (the agent doesn't use these):\n` +
+              missing.map(entry => `- ${entry.tool}: ${entry.scopes.join(', ')}`).join('\n')
+            : degraded.length > 0 ? '✅ Every tool is available.' : '✅ The token has every scope the tools need.',
+          ...(degraded.length > 0
+            ? ['', `**Degraded tools** (used with a fallback):\n` + degraded.map(entry => `- ${entry.tool}: ${entry.reason}`).join('\n')]
+            : [])
+        ];
+
+        return {
+          content: [{ type: "text", text: lines.join('\n') }]
+        };
+      } catch (error) {
+        const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+        return {
+          content: [{ type: "text", text: `❌ Failed to get auth status: ${errorMessage}` }]
+        };
+      }
+    }
+  );
+
   // Tool: Get Debug Info
   server.tool(
     "getDebugInfo",
@@ -1065,7 +2564,22 @@ export default function createStatelessServer({
           };
         }
 
-        const debugInfo = autoMonitor.getDebugInfo();
+        const debugInfo = {
+          ...autoMonitor.getDebugInfo(),
+          eventSub: eventSubClient ? eventSubClient.getStatus() : 'disabled',
+          raidDefense: raidDefense.getStatus(),
+          shieldModeRule: autoMonitor.getShieldModeRuleStatus(),
+          chatSettingReverts: chatSettings.getScheduledReverts(),
+          autoModQueue: autoModQueue.getStats(),
+          helixRateLimit: helix.getRateLimit(),
+          userRoles: userRoles.getStatus(),
+          auth: twitchAuth.getStatus(),
+          blockedTerms: {
+            twitch: blockedTermList.getTwitchTerms().length,
+            local: blockedTermList.getLocalTerms().length,
+            lastSync: blockedTermList.getLastSync()
+          }
+        };
         
         return {
           content: [{ type: "text", text: `🐛 **Debug Information:**\n\n` +
@@ -1,4 +1,23 @@
-import { ChatPattern, ChatAnalysisResult, ChatMessage } from './autonomous-types';
+import { ChatPattern, ChatAnalysisResult, ChatMessage, AutonomousConfig } from './autonomous-types';
+import {
+  StructuredOutputParser,
+  ParseStats,
+  ToxicityResponseSchema,
+  SpamResponseSchema,
+  EngagementResponseSchema,
+  SentimentResponseSchema,
+  ActivityResponseSchema,
+  CombinedResponseSchema,
+  UsageTotals,
+  ToxicityResponse,
+  SpamResponse,
+  EngagementResponse,
+  SentimentResponse,
+  ActivityResponse
+} from './structured-output';
+import { StreamEvent, describeStreamEvent } from './stream-events';
+import { WaveDetector, WaveDetectionConfig, AccountAgeLookup, DEFAULT_WAVE_DETECTION } from './wave-detector';
+import { BlockedTermsCheck } from './blocked-terms';
 
 // AI agent prompt templates for intelligent pattern detection
 const ANALYSIS_PROMPTS = {
@@ -89,26 +108,125 @@ Messages (${messages.length} total from ${uniqueUsers} unique users):
 ${messages.map((msg, i) => `${i + 1}. ${msg}`).join('\n')}
 
 Respond in JSON: {"activityLevel": number, "description": string, "recommendations": string[]}`
+  },
+  combined: {
+    systemPrompt: `You are a Twitch chat analysis AI. In a single pass, analyze chat messages for:
+- Toxicity: harassment, hate speech, personal attacks, threats (1-3 mildly rude, 4-6 personal attacks, 7-8 harassment, 9-10 threats/hate speech)
+- Spam: promotion, links, repetition, bot-like behavior, scams, emote spam (1-3 borderline, 4-6 clear spam, 7-8 aggressive/scams, 9-10 malicious/bot attacks)
+- Engagement opportunities: questions or requests the streamer could respond to (1-10)
+- Overall sentiment from -1 (very negative) to +1 (very positive)
+- Activity level from 0 (dead) to 10 (very active)
+
+Only list messages that actually show toxicity, spam or an engagement opportunity.`,
+    analysisPrompt: (messages: string[], userCounts: Record<string, number>, timeSpan: string, uniqueUsers: number) => `Analyze these chat messages from the last ${timeSpan} (${messages.length} total from ${uniqueUsers} unique users):
+${messages.map((msg, i) => `${i + 1}. ${msg}`).join('\n')}
+
+User message counts in last minute: ${JSON.stringify(userCounts)}
+
+Respond in JSON:
+{
+  "toxicity": [{"messageIndex": number, "toxicityScore": number, "reason": string, "action": string, "username": string}],
+  "spam": [{"messageIndex": number, "spamScore": number, "reason": string, "action": string, "username": string}],
+  "engagement": [{"messageIndex": number, "engagementScore": number, "reason": string, "suggestedResponse": string, "username": string}],
+  "sentiment": {"overallSentiment": number, "reasoning": string, "keyIndicators": string[]},
+  "activity": {"activityLevel": number, "description": string, "recommendations": string[]}
+}`
   }
 };
 
+export type AnalysisMode = 'perAspect' | 'batched';
+
+// Cost of the analysis stage per mode, so the two modes can be compared
+export interface AnalysisCostStats {
+  cycles: number;
+  calls: number;
+  totalLatencyMs: number; // wall-clock time of the analysis stage
+  promptTokens: number;
+  completionTokens: number;
+  estimatedTokens: boolean; // true when any call fell back to a chars/4 estimate
+}
+
+export type PromptType =
+  | 'toxicity'
+  | 'spam'
+  | 'engagement'
+  | 'sentiment'
+  | 'activity'
+  | 'combined'
+  | 'actionSelection'
+  | 'parameterGeneration';
+
+// Structured data behind a prompt, for implementations that don't need to read the prompt text
+export interface AnalysisContext {
+  promptType: PromptType;
+  messages?: ChatMessage[];
+  userTimestamps?: Map<string, Date[]>;
+  analysis?: ChatAnalysisResult;
+  config?: AutonomousConfig;
+  availableTools?: { name: string; riskLevel: 'low' | 'medium' | 'high' }[];
+  action?: string;
+  pattern?: ChatPattern;
+  streamEvents?: StreamEvent[];
+  reportUsage?: (usage: { promptTokens: number; completionTokens: number }) => void;
+}
+
 export interface AIAnalysisFunction {
-  (prompt: string): Promise<string>;
+  (prompt: string, context?: AnalysisContext): Promise<string>;
+}
+
+interface AnalysisInput {
+  messages: ChatMessage[]; // context messages followed by the messages to score
+  messageTexts: string[];
+  contextCount: number; // leading messages that are context only
+  userCounts: Record<string, number>;
+  userTimestamps: Map<string, Date[]>;
+  uniqueUsers: number;
+  streamEvents: StreamEvent[]; // follows, subs, raids etc. around the time of the messages
+}
+
+interface AnalyzerOptions {
+  waveDetection?: WaveDetectionConfig;
+  accountAgeLookup?: AccountAgeLookup; // lets the wave detector weigh account age
+  blockedTerms?: BlockedTermsCheck;
+}
+
+interface AspectResults {
+  toxicityResults: ToxicityResponse;
+  spamResults: SpamResponse;
+  engagementResults: EngagementResponse;
+  sentimentResult: SentimentResponse;
+  activityResult: ActivityResponse;
 }
 
 export class AIPatternAnalyzer {
   private recentPatterns: ChatPattern[] = [];
   private userMessageCounts: Map<string, { count: number, timestamps: Date[] }> = new Map();
-  private aiAnalyze: AIAnalysisFunction;
-
-  constructor(aiAnalyzeFunction: AIAnalysisFunction) {
-    this.aiAnalyze = aiAnalyzeFunction;
+  private structuredOutput: StructuredOutputParser;
+  private mode: AnalysisMode;
+  private waveDetector: WaveDetector;
+  private blockedTerms?: BlockedTermsCheck;
+  private costStats: Record<AnalysisMode, AnalysisCostStats> = {
+    perAspect: { cycles: 0, calls: 0, totalLatencyMs: 0, promptTokens: 0, completionTokens: 0, estimatedTokens: false },
+    batched: { cycles: 0, calls: 0, totalLatencyMs: 0, promptTokens: 0, completionTokens: 0, estimatedTokens: false }
+  };
+
+  constructor(aiAnalyzeFunction: AIAnalysisFunction, mode: AnalysisMode = 'perAspect', options: AnalyzerOptions = {}) {
+    this.structuredOutput = new StructuredOutputParser(aiAnalyzeFunction);
+    this.mode = mode;
+    this.waveDetector = new WaveDetector(options.waveDetection || DEFAULT_WAVE_DETECTION, options.accountAgeLookup);
+    this.blockedTerms = options.blockedTerms;
   }
 
   /**
-   * Analyze recent chat messages using AI agent decision making
+   * Analyze recent chat messages using AI agent decision making.
+   * Only `messages` are scored; `contextMessages` are earlier, already-analyzed messages shown for context.
+   * `streamEvents` explain chat activity, e.g. a burst of new chatters after a raid.
    */
-  async analyzeChat(messages: ChatMessage[]): Promise<ChatAnalysisResult> {
+  async analyzeChat(
+    messages: ChatMessage[],
+    contextMessages: ChatMessage[] = [],
+    streamEvents: StreamEvent[] = []
+  ): Promise<ChatAnalysisResult> {
     if (messages.length === 0) {
       return {
         patterns: [],
@@ -123,33 +241,47 @@ export class AIPatternAnalyzer {
     this.cleanupOldData();
     this.updateUserTracking(messages);
 
+    // Raids and bot waves are detected locally, so they're caught even when the AI call fails
+    const wavePattern = await this.waveDetector.detect(messages, streamEvents);
+    const localPatterns = [...(wavePattern ? [wavePattern] : []), ...this.detectBlockedTerms(messages)];
+
     // Prepare message data for AI analysis
-    const messageTexts = messages.map(m => `${m.username}: ${m.content}`);
-    const userCounts = this.getUserMessageCounts();
+    const allMessages = [...contextMessages, ...messages];
+    const input: AnalysisInput = {
+      messages: allMessages,
+      messageTexts: allMessages.map(m => `${m.username}: ${m.content}`),
+      contextCount: contextMessages.length,
+      userCounts: this.getUserMessageCounts(),
+      userTimestamps: this.getUserTimestamps(),
+      uniqueUsers: new Set(allMessages.map(m => m.username)).size,
+      streamEvents
+    };
+
+    const mode = this.mode;
+    const usageBefore = this.structuredOutput.getUsage();
+    const startedAt = Date.now();
 
     try {
-      // Run parallel AI analyses
-      const [
+      const {
         toxicityResults,
-        spamResults, 
+        spamResults,
         engagementResults,
         sentimentResult,
         activityResult
-      ] = await Promise.all([
-        this.analyzeToxicity(messageTexts),
-        this.analyzeSpam(messageTexts, userCounts),
-        this.analyzeEngagement(messageTexts),
-        this.analyzeSentiment(messageTexts),
-        this.analyzeActivity(messageTexts, '5 minutes', new Set(messages.map(m => m.username)).size)
-      ]);
+      } = mode === 'batched'
+        ? await this.analyzeCombined(input)
+        : await this.analyzePerAspect(input);
+
+      this.recordCost(mode, usageBefore, Date.now() - startedAt);
 
       // Convert AI results to ChatPatterns
-      const patterns = this.convertToPatterns(
-        messages,
+      const patterns = this.mergeLocalPatterns(localPatterns, this.convertToPatterns(
+        allMessages,
+        input.contextCount,
         toxicityResults,
         spamResults,
         engagementResults
-      );
+      ));
 
       // Determine if attention is needed
       const needsAttention = this.determineAttentionNeeded(patterns);
@@ -158,7 +290,8 @@ export class AIPatternAnalyzer {
       const recommendations = this.generateAIRecommendations(
         patterns,
         sentimentResult,
-        activityResult
+        activityResult,
+        streamEvents
       );
 
       // Store recent patterns for trend analysis
@@ -169,99 +302,161 @@ export class AIPatternAnalyzer {
         overallSentiment: sentimentResult.overallSentiment,
         activityLevel: activityResult.activityLevel,
         needsAttention,
-        recommendations
+        recommendations,
+        ...(streamEvents.length > 0 ? { streamEvents } : {})
       };
 
     } catch (error) {
       console.error('AI analysis failed, falling back to basic analysis:', error);
-      return this.fallbackAnalysis(messages);
+      return this.fallbackAnalysis(messages, localPatterns);
     }
   }
 
+  /**
+   * Run one prompt per aspect in parallel
+   */
+  private async analyzePerAspect(input: AnalysisInput): Promise<AspectResults> {
+    const [
+      toxicityResults,
+      spamResults, 
+      engagementResults,
+      sentimentResult,
+      activityResult
+    ] = await Promise.all([
+      this.analyzeToxicity(input),
+      this.analyzeSpam(input),
+      this.analyzeEngagement(input),
+      this.analyzeSentiment(input),
+      this.analyzeActivity(input, '5 minutes')
+    ]);
+
+    return { toxicityResults, spamResults, engagementResults, sentimentResult, activityResult };
+  }
+
+  /**
+   * Ask a single combined prompt for every aspect
+   */
+  private async analyzeCombined(input: AnalysisInput): Promise<AspectResults> {
+    const prompt = ANALYSIS_PROMPTS.combined.analysisPrompt(input.messageTexts, input.userCounts, '5 minutes', input.uniqueUsers);
+    const systemPrompt = ANALYSIS_PROMPTS.combined.systemPrompt;
+
+    const fullPrompt = `${systemPrompt}\n\n${prompt}${this.scopeNote(input)}${this.streamEventNote(input)}`;
+    const result = await this.structuredOutput.request(fullPrompt, CombinedResponseSchema, {
+      promptType: 'combined',
+      messages: input.messages,
+      userTimestamps: input.userTimestamps,
+      streamEvents: input.streamEvents
+    });
+
+    return {
+      toxicityResults: result?.toxicity || [],
+      spamResults: result?.spam || [],
+      engagementResults: result?.engagement || [],
+      sentimentResult: result?.sentiment || { overallSentiment: 0, reasoning: "Analysis failed", keyIndicators: [] },
+      activityResult: result?.activity || { activityLevel: 5, description: "Moderate activity", recommendations: ["Monitor chat"] }
+    };
+  }
+
   /**
    * Use AI to analyze toxicity in chat messages
    */
-  private async analyzeToxicity(messages: string[]): Promise<any[]> {
-    const prompt = ANALYSIS_PROMPTS.toxicity.analysisPrompt(messages);
+  private async analyzeToxicity(input: AnalysisInput): Promise<ToxicityResponse> {
+    const prompt = ANALYSIS_PROMPTS.toxicity.analysisPrompt(input.messageTexts);
     const systemPrompt = ANALYSIS_PROMPTS.toxicity.systemPrompt;
     
-    const fullPrompt = `${systemPrompt}\n\n${prompt}`;
-    const response = await this.aiAnalyze(fullPrompt);
+    const fullPrompt = `${systemPrompt}\n\n${prompt}${this.scopeNote(input)}`;
+    const result = await this.structuredOutput.request(fullPrompt, ToxicityResponseSchema, {
+      promptType: 'toxicity',
+      messages: input.messages
+    });
     
-    try {
-      return JSON.parse(response);
-    } catch {
-      // If parsing fails, return empty array
-      return [];
-    }
+    // If the response can't be parsed or repaired, return empty array
+    return result || [];
   }
 
   /**
    * Use AI to analyze spam patterns
    */
-  private async analyzeSpam(messages: string[], userCounts: Record<string, number>): Promise<any[]> {
-    const prompt = ANALYSIS_PROMPTS.spam.analysisPrompt(messages, userCounts);
+  private async analyzeSpam(input: AnalysisInput): Promise<SpamResponse> {
+    const prompt = ANALYSIS_PROMPTS.spam.analysisPrompt(input.messageTexts, input.userCounts);
     const systemPrompt = ANALYSIS_PROMPTS.spam.systemPrompt;
     
-    const fullPrompt = `${systemPrompt}\n\n${prompt}`;
-    const response = await this.aiAnalyze(fullPrompt);
+    const fullPrompt = `${systemPrompt}\n\n${prompt}${this.scopeNote(input)}${this.streamEventNote(input)}`;
+    const result = await this.structuredOutput.request(fullPrompt, SpamResponseSchema, {
+      promptType: 'spam',
+      messages: input.messages,
+      userTimestamps: input.userTimestamps,
+      streamEvents: input.streamEvents
+    });
     
-    try {
-      return JSON.parse(response);
-    } catch {
-      return [];
-    }
+    return result || [];
   }
 
   /**
    * Use AI to identify engagement opportunities
    */
-  private async analyzeEngagement(messages: string[]): Promise<any[]> {
-    const prompt = ANALYSIS_PROMPTS.engagement.analysisPrompt(messages);
+  private async analyzeEngagement(input: AnalysisInput): Promise<EngagementResponse> {
+    const prompt = ANALYSIS_PROMPTS.engagement.analysisPrompt(input.messageTexts);
     const systemPrompt = ANALYSIS_PROMPTS.engagement.systemPrompt;
     
-    const fullPrompt = `${systemPrompt}\n\n${prompt}`;
-    const response = await this.aiAnalyze(fullPrompt);
+    const fullPrompt = `${systemPrompt}\n\n${prompt}${this.scopeNote(input)}${this.streamEventNote(input)}`;
+    const result = await this.structuredOutput.request(fullPrompt, EngagementResponseSchema, {
+      promptType: 'engagement',
+      messages: input.messages
+    });
     
-    try {
-      return JSON.parse(response);
-    } catch {
-      return [];
-    }
+    return result || [];
   }
 
   /**
    * Use AI to analyze overall sentiment
    */
-  private async analyzeSentiment(messages: string[]): Promise<any> {
-    const prompt = ANALYSIS_PROMPTS.sentiment.analysisPrompt(messages);
+  private async analyzeSentiment(input: AnalysisInput): Promise<SentimentResponse> {
+    const prompt = ANALYSIS_PROMPTS.sentiment.analysisPrompt(input.messageTexts);
     const systemPrompt = ANALYSIS_PROMPTS.sentiment.systemPrompt;
     
-    const fullPrompt = `${systemPrompt}\n\n${prompt}`;
-    const response = await this.aiAnalyze(fullPrompt);
+    const fullPrompt = `${systemPrompt}\n\n${prompt}${this.streamEventNote(input)}`;
+    const result = await this.structuredOutput.request(fullPrompt, SentimentResponseSchema, {
+      promptType: 'sentiment',
+      messages: input.messages
+    });
     
-    try {
-      return JSON.parse(response);
-    } catch {
-      return { overallSentiment: 0, reasoning: "Analysis failed", keyIndicators: [] };
-    }
+    return result || { overallSentiment: 0, reasoning: "Analysis failed", keyIndicators: [] };
   }
 
   /**
    * Use AI to analyze activity level
    */
-  private async analyzeActivity(messages: string[], timeSpan: string, uniqueUsers: number): Promise<any> {
-    const prompt = ANALYSIS_PROMPTS.activity.analysisPrompt(messages, timeSpan, uniqueUsers);
+  private async analyzeActivity(input: AnalysisInput, timeSpan: string): Promise<ActivityResponse> {
+    const prompt = ANALYSIS_PROMPTS.activity.analysisPrompt(input.messageTexts, timeSpan, input.uniqueUsers);
     const systemPrompt = ANALYSIS_PROMPTS.activity.systemPrompt;
     
-    const fullPrompt = `${systemPrompt}\n\n${prompt}`;
-    const response = await this.aiAnalyze(fullPrompt);
+    const fullPrompt = `${systemPrompt}\n\n${prompt}${this.streamEventNote(input)}`;
+    const result = await this.structuredOutput.request(fullPrompt, ActivityResponseSchema, {
+      promptType: 'activity',
+      messages: input.messages,
+      streamEvents: input.streamEvents
+    });
     
-    try {
-      return JSON.parse(response);
-    } catch {
-      return { activityLevel: 5, description: "Moderate activity", recommendations: ["Monitor chat"] };
-    }
+    return result || { activityLevel: 5, description: "Moderate activity", recommendations: ["Monitor chat"] };
+  }
+
+  /**
+   * Tell the model which messages are context only, so it doesn't re-score them
+   */
+  private scopeNote(input: AnalysisInput): string {
+    if (input.contextCount === 0) return '';
+    return `\n\nMessages 1-${input.contextCount} are earlier context that has already been analyzed. ` +
+      `Only report results for messages ${input.contextCount + 1}-${input.messages.length}.`;
+  }
+
+  /**
+   * List recent stream events, so bursts like raid arrivals aren't mistaken for spam
+   */
+  private streamEventNote(input: AnalysisInput): string {
+    if (input.streamEvents.length === 0) return '';
+    return `\n\nRecent stream events (not chat messages, don't report results for them):\n` +
+      input.streamEvents.map(event => `- [${event.timestamp.toISOString()}] ${describeStreamEvent(event)}`).join('\n');
   }
 
   /**
@@ -269,9 +464,10 @@ export class AIPatternAnalyzer {
    */
   private convertToPatterns(
     messages: ChatMessage[],
-    toxicityResults: any[],
-    spamResults: any[],
-    engagementResults: any[]
+    contextCount: number,
+    toxicityResults: ToxicityResponse,
+    spamResults: SpamResponse,
+    engagementResults: EngagementResponse
   ): ChatPattern[] {
     const patterns: ChatPattern[] = [];
     const now = new Date();
@@ -280,18 +476,18 @@ export class AIPatternAnalyzer {
     for (const result of toxicityResults) {
       if (result.toxicityScore >= 4) { // Only create patterns for moderate+ toxicity
         const messageIndex = result.messageIndex - 1; // Convert to 0-based index
-        if (messageIndex >= 0 && messageIndex < messages.length) {
+        if (messageIndex >= contextCount && messageIndex < messages.length) {
           patterns.push({
             type: 'toxicity',
             severity: result.toxicityScore,
-            confidence: 0.9, // High confidence in AI analysis
-            users: [result.username || messages[messageIndex]?.username || 'unknown'],
-            messages: [messages[messageIndex]?.content || ''],
+            confidence: result.confidence ?? 0.9, // High confidence in AI analysis
+            ...this.messageReference(messages[messageIndex]),
             timestamp: now,
             metadata: {
               reason: result.reason,
               recommendedAction: result.action,
-              aiGenerated: true
+              detector: result.detector,
+              aiGenerated: !result.detector
             }
           });
         }
@@ -302,18 +498,18 @@ export class AIPatternAnalyzer {
     for (const result of spamResults) {
       if (result.spamScore >= 4) {
         const messageIndex = result.messageIndex - 1;
-        if (messageIndex >= 0 && messageIndex < messages.length) {
+        if (messageIndex >= contextCount && messageIndex < messages.length) {
           patterns.push({
             type: 'spam',
             severity: result.spamScore,
-            confidence: 0.8,
-            users: [result.username || messages[messageIndex]?.username || 'unknown'],
-            messages: [messages[messageIndex]?.content || ''],
+            confidence: result.confidence ?? 0.8,
+            ...this.messageReference(messages[messageIndex]),
             timestamp: now,
             metadata: {
               reason: result.reason,
               recommendedAction: result.action,
-              aiGenerated: true
+              detector: result.detector,
+              aiGenerated: !result.detector
             }
           });
         }
@@ -324,18 +520,18 @@ export class AIPatternAnalyzer {
     for (const result of engagementResults) {
       if (result.engagementScore >= 6) { // Only high-value engagement opportunities
         const messageIndex = result.messageIndex - 1;
-        if (messageIndex >= 0 && messageIndex < messages.length) {
+        if (messageIndex >= contextCount && messageIndex < messages.length) {
           patterns.push({
             type: 'question',
             severity: result.engagementScore,
-            confidence: 0.7,
-            users: [result.username || messages[messageIndex]?.username || 'unknown'],
-            messages: [messages[messageIndex]?.content || ''],
+            confidence: result.confidence ?? 0.7,
+            ...this.messageReference(messages[messageIndex]),
             timestamp: now,
             metadata: {
               reason: result.reason,
               suggestedResponse: result.suggestedResponse,
-              aiGenerated: true
+              detector: result.detector,
+              aiGenerated: !result.detector
             }
           });
         }
@@ -345,16 +541,95 @@ export class AIPatternAnalyzer {
     return patterns;
   }
 
+  /**
+   * Toxicity and spam patterns for messages that hit a blocked term; needs no AI call
+   */
+  private detectBlockedTerms(messages: ChatMessage[]): ChatPattern[] {
+    if (!this.blockedTerms) {
+      return [];
+    }
+
+    const patterns: ChatPattern[] = [];
+    const now = new Date();
+
+    for (const message of messages) {
+      const matches = this.blockedTerms(message.content);
+      for (const category of ['toxicity', 'spam'] as const) {
+        const hits = matches.filter(m => m.term.category === category);
+        if (hits.length === 0) continue;
+
+        patterns.push({
+          type: category,
+          severity: hits[0].term.severity, // matches come most severe first
+          confidence: 0.95,
+          ...this.messageReference(message),
+          timestamp: now,
+          metadata: {
+            reason: `Matched blocked term${hits.length > 1 ? 's' : ''}: ${hits.map(h => `"${h.term.pattern}"`).join(', ')}`,
+            detector: 'blockedTerms',
+            blockedTerms: hits.map(h => ({ pattern: h.term.pattern, source: h.term.source, matched: h.matched })),
+            aiGenerated: false
+          }
+        });
+      }
+    }
+
+    return patterns;
+  }
+
+  /**
+   * Put locally detected patterns first, dropping AI patterns of the same type for the same message
+   */
+  private mergeLocalPatterns(localPatterns: ChatPattern[], aiPatterns: ChatPattern[]): ChatPattern[] {
+    const covered = (pattern: ChatPattern) => localPatterns.some(local =>
+      local.type === pattern.type && local.sourceMessages?.some(m => pattern.sourceMessages?.includes(m))
+    );
+
+    return [...localPatterns, ...aiPatterns.filter(p => !covered(p))];
+  }
+
+  /**
+   * Point a pattern at the exact message it was detected in
+   */
+  private messageReference(message: ChatMessage): Pick<ChatPattern, 'users' | 'userIds' | 'messages' | 'messageIds' | 'sourceMessages'> {
+    return {
+      users: [message.username],
+      userIds: message.userId ? [message.userId] : undefined,
+      messages: [message.content],
+      messageIds: message.id ? [message.id] : undefined,
+      sourceMessages: [message]
+    };
+  }
+
   /**
    * Generate AI-powered recommendations
    */
   private generateAIRecommendations(
     patterns: ChatPattern[],
-    sentimentResult: any,
-    activityResult: any
+    sentimentResult: SentimentResponse,
+    activityResult: ActivityResponse,
+    streamEvents: StreamEvent[]
   ): string[] {
     const recommendations: string[] = [];
 
+    const wave = patterns.find(p => p.type === 'raid');
+    if (wave) {
+      recommendations.push(`🛡️ ${wave.metadata?.reason} - consider followers-only mode or Shield Mode`);
+    }
+
+    // Add stream event recommendations
+    for (const event of streamEvents) {
+      if (event.type === 'raid') {
+        recommendations.push(`🎉 ${event.from.displayName || event.from.login} raided with ${event.viewers} viewers - welcome the raiders`);
+      }
+    }
+    const supporters = streamEvents
+      .filter(e => ['subscription', 'resubscription', 'giftSubscription', 'cheer'].includes(e.type))
+      .map(e => 'user' in e && e.user ? e.user.displayName || e.user.login : 'an anonymous supporter');
+    if (supporters.length > 0) {
+      recommendations.push(`💜 Thank supporters: ${Array.from(new Set(supporters)).join(', ')}`);
+    }
+
     // Add pattern-based recommendations
     const spamPatterns = patterns.filter(p => p.type === 'spam');
     const toxicPatterns = patterns.filter(p => p.type === 'toxicity');
@@ -387,9 +662,7 @@ export class AIPatternAnalyzer {
     }
 
     // Add activity-based recommendations
-    if (activityResult.recommendations) {
-      recommendations.push(...activityResult.recommendations.map((rec: string) => `📊 ${rec}`));
-    }
+    recommendations.push(...activityResult.recommendations.map(rec => `📊 ${rec}`));
 
     return recommendations.length > 0 ? recommendations : ['✅ Chat is healthy - no immediate action needed'];
   }
@@ -399,6 +672,7 @@ export class AIPatternAnalyzer {
    */
   private determineAttentionNeeded(patterns: ChatPattern[]): boolean {
     return patterns.some(p => 
+      p.type === 'raid' ||
       (p.type === 'spam' && p.severity >= 7) ||
       (p.type === 'toxicity' && p.severity >= 6) ||
       patterns.filter(p => p.type === 'spam').length >= 2
@@ -408,12 +682,12 @@ export class AIPatternAnalyzer {
   /**
    * Fallback analysis if AI fails
    */
-  private fallbackAnalysis(messages: ChatMessage[]): ChatAnalysisResult {
+  private fallbackAnalysis(messages: ChatMessage[], localPatterns: ChatPattern[] = []): ChatAnalysisResult {
     return {
-      patterns: [],
+      patterns: localPatterns,
       overallSentiment: 0,
       activityLevel: Math.min(10, messages.length),
-      needsAttention: false,
+      needsAttention: this.determineAttentionNeeded(localPatterns),
       recommendations: ['AI analysis unavailable - manual review recommended']
     };
   }
@@ -435,6 +709,17 @@ export class AIPatternAnalyzer {
     return counts;
   }
 
+  /**
+   * Get per-user message timestamps for rate-based detection
+   */
+  private getUserTimestamps(): Map<string, Date[]> {
+    const timestamps = new Map<string, Date[]>();
+    for (const [username, data] of this.userMessageCounts) {
+      timestamps.set(username, [...data.timestamps]);
+    }
+    return timestamps;
+  }
+
   /**
    * Update user message tracking
    */
@@ -470,6 +755,58 @@ export class AIPatternAnalyzer {
     );
   }
 
+  /**
+   * Add the calls, tokens and latency of one analysis cycle to its mode's totals
+   */
+  private recordCost(mode: AnalysisMode, usageBefore: UsageTotals, latencyMs: number): void {
+    const usageAfter = this.structuredOutput.getUsage();
+    const stats = this.costStats[mode];
+
+    stats.cycles++;
+    stats.calls += usageAfter.calls - usageBefore.calls;
+    stats.totalLatencyMs += latencyMs;
+    stats.promptTokens += usageAfter.promptTokens - usageBefore.promptTokens;
+    stats.completionTokens += usageAfter.completionTokens - usageBefore.completionTokens;
+    stats.estimatedTokens = stats.estimatedTokens || usageAfter.estimatedCalls > usageBefore.estimatedCalls;
+  }
+
+  /**
+   * Get analysis cost totals and per-cycle averages for both modes
+   */
+  getCostStats(): Record<AnalysisMode, AnalysisCostStats & { avgLatencyMs: number; avgTokensPerCycle: number }> {
+    const withAverages = (stats: AnalysisCostStats) => ({
+      ...stats,
+      avgLatencyMs: stats.cycles > 0 ? Math.round(stats.totalLatencyMs / stats.cycles) : 0,
+      avgTokensPerCycle: stats.cycles > 0 ? Math.round((stats.promptTokens + stats.completionTokens) / stats.cycles) : 0
+    });
+
+    return {
+      perAspect: withAverages(this.costStats.perAspect),
+      batched: withAverages(this.costStats.batched)
+    };
+  }
+
+  /**
+   * Update the raid/bot-wave detection thresholds
+   */
+  setWaveDetection(config: WaveDetectionConfig): void {
+    this.waveDetector.updateConfig(config);
+  }
+
+  /**
+   * Switch between per-aspect and batched analysis
+   */
+  setMode(mode: AnalysisMode): void {
+    this.mode = mode;
+  }
+
+  /**
+   * Get parse failure counts per prompt type
+   */
+  getParseStats(): Record<string, ParseStats> {
+    return this.structuredOutput.getStats();
+  }
+
   /**
    * Get pattern trends over time
    */
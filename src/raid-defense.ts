@@ -0,0 +1,216 @@
+import { ChatSettings } from './chat-settings';
+
+export interface WaveUser {
+  username: string;
+  userId?: string;
+}
+
+// Helix calls the lockdown needs, supplied by the server
+export interface RaidDefenseOperations {
+  getChatSettings(): Promise<ChatSettings>;
+  updateChatSettings(settings: Partial<ChatSettings>): Promise<void>;
+  getShieldMode(): Promise<boolean>;
+  setShieldMode(active: boolean): Promise<void>;
+  timeoutUser(user: WaveUser, duration: number, reason: string): Promise<'timedOut' | 'protected'>;
+}
+
+export interface LockdownPlan {
+  users: WaveUser[];
+  followersOnly: boolean;
+  followersOnlyMinutes: number;
+  emoteOnly: boolean;
+  shieldMode: boolean;
+  timeoutWave: boolean;
+  cooldownMinutes: number;
+  reason: string;
+}
+
+export interface LockdownResult {
+  applied: string[]; // measures switched on by this activation
+  timedOut: string[];
+  skipped: string[]; // protected users left alone
+  failed: string[];
+  revertAt: Date;
+}
+
+export interface RaidDefenseStatus {
+  active: boolean;
+  activatedAt?: Date;
+  revertAt?: Date;
+  measures: string[];
+  timedOut: string[];
+}
+
+interface Lockdown {
+  activatedAt: Date;
+  revertAt: Date;
+  previousChat?: ChatSettings; // settings before the lockdown, restored on revert
+  shieldWasActive?: boolean;
+  measures: Set<'followersOnly' | 'emoteOnly' | 'shieldMode'>;
+  timedOut: Set<string>;
+}
+
+/**
+ * Locks chat down during a raid or bot wave and reverts it after the cool-down.
+ * Repeated activations during a lockdown extend it and only time out chatters not handled yet.
+ */
+export class RaidDefense {
+  private operations: RaidDefenseOperations;
+  private lockdown: Lockdown | null = null;
+  private revertTimer: NodeJS.Timeout | null = null;
+
+  constructor(operations: RaidDefenseOperations) {
+    this.operations = operations;
+  }
+
+  async activate(plan: LockdownPlan): Promise<LockdownResult> {
+    const now = new Date();
+    const revertAt = new Date(now.getTime() + plan.cooldownMinutes * 60 * 1000);
+    const result: LockdownResult = { applied: [], timedOut: [], skipped: [], failed: [], revertAt };
+
+    if (!this.lockdown) {
+      this.lockdown = { activatedAt: now, revertAt, measures: new Set(), timedOut: new Set() };
+      console.log(`Raid defense activated: ${plan.reason}`);
+    }
+    const lockdown = this.lockdown;
+    lockdown.revertAt = revertAt;
+
+    const chatChanges: Partial<ChatSettings> = {};
+    if (plan.followersOnly && !lockdown.measures.has('followersOnly')) {
+      chatChanges.followersOnly = plan.followersOnlyMinutes;
+    }
+    if (plan.emoteOnly && !lockdown.measures.has('emoteOnly')) {
+      chatChanges.emoteOnly = true;
+    }
+
+    if (Object.keys(chatChanges).length > 0) {
+      try {
+        lockdown.previousChat ??= await this.operations.getChatSettings();
+        await this.operations.updateChatSettings(chatChanges);
+        if (chatChanges.followersOnly !== undefined) {
+          lockdown.measures.add('followersOnly');
+          result.applied.push('followersOnly');
+        }
+        if (chatChanges.emoteOnly) {
+          lockdown.measures.add('emoteOnly');
+          result.applied.push('emoteOnly');
+        }
+      } catch (error) {
+        result.failed.push(`chat settings: ${errorMessage(error)}`);
+      }
+    }
+
+    if (plan.shieldMode && !lockdown.measures.has('shieldMode')) {
+      try {
+        lockdown.shieldWasActive ??= await this.operations.getShieldMode();
+        if (!lockdown.shieldWasActive) {
+          await this.operations.setShieldMode(true);
+        }
+        lockdown.measures.add('shieldMode');
+        result.applied.push('shieldMode');
+      } catch (error) {
+        result.failed.push(`shield mode: ${errorMessage(error)}`);
+      }
+    }
+
+    if (plan.timeoutWave) {
+      // Timeouts last until the lockdown ends, so they revert themselves
+      const duration = Math.max(1, Math.round((revertAt.getTime() - now.getTime()) / 1000));
+      for (const user of plan.users) {
+        const key = user.username.toLowerCase();
+        if (lockdown.timedOut.has(key)) continue;
+
+        try {
+          const outcome = await this.operations.timeoutUser(user, duration, plan.reason);
+          if (outcome === 'protected') {
+            result.skipped.push(user.username);
+            continue;
+          }
+          lockdown.timedOut.add(key);
+          result.timedOut.push(user.username);
+        } catch (error) {
+          result.failed.push(`timeout ${user.username}: ${errorMessage(error)}`);
+        }
+      }
+    }
+
+    this.scheduleRevert(revertAt);
+    return result;
+  }
+
+  /**
+   * End the lockdown now, restoring the chat settings and Shield Mode state from before it
+   */
+  async revert(): Promise<string[]> {
+    if (this.revertTimer) {
+      clearTimeout(this.revertTimer);
+      this.revertTimer = null;
+    }
+
+    const lockdown = this.lockdown;
+    if (!lockdown) {
+      return [];
+    }
+    this.lockdown = null;
+
+    const reverted: string[] = [];
+    const previous = lockdown.previousChat;
+    if (previous && (lockdown.measures.has('followersOnly') || lockdown.measures.has('emoteOnly'))) {
+      const restore: Partial<ChatSettings> = {};
+      if (lockdown.measures.has('followersOnly')) {
+        restore.followersOnly = previous.followersOnly;
+      }
+      if (lockdown.measures.has('emoteOnly')) {
+        restore.emoteOnly = previous.emoteOnly;
+      }
+
+      try {
+        await this.operations.updateChatSettings(restore);
+        reverted.push(...Array.from(lockdown.measures).filter(m => m !== 'shieldMode'));
+      } catch (error) {
+        console.error('Failed to restore chat settings after raid defense:', errorMessage(error));
+      }
+    }
+
+    if (lockdown.measures.has('shieldMode') && lockdown.shieldWasActive === false) {
+      try {
+        await this.operations.setShieldMode(false);
+        reverted.push('shieldMode');
+      } catch (error) {
+        console.error('Failed to turn off Shield Mode after raid defense:', errorMessage(error));
+      }
+    }
+
+    console.log(`Raid defense ended${reverted.length > 0 ? `, reverted: ${reverted.join(', ')}` : ''}`);
+    return reverted;
+  }
+
+  getStatus(): RaidDefenseStatus {
+    if (!this.lockdown) {
+      return { active: false, measures: [], timedOut: [] };
+    }
+
+    return {
+      active: true,
+      activatedAt: this.lockdown.activatedAt,
+      revertAt: this.lockdown.revertAt,
+      measures: Array.from(this.lockdown.measures),
+      timedOut: Array.from(this.lockdown.timedOut)
+    };
+  }
+
+  private scheduleRevert(revertAt: Date): void {
+    if (this.revertTimer) {
+      clearTimeout(this.revertTimer);
+    }
+
+    this.revertTimer = setTimeout(() => {
+      this.revertTimer = null;
+      this.revert().catch(error => console.error('Raid defense revert failed:', error));
+    }, Math.max(0, revertAt.getTime() - Date.now()));
+  }
+}
+
+function errorMessage(error: unknown): string {
+  return (error as { message?: string })?.message || 'Unknown error';
+}
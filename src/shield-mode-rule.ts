@@ -0,0 +1,125 @@
+import { randomUUID } from 'crypto';
+import { ActionDecision, ChatPattern, ShieldModeRuleConfig } from './autonomous-types';
+
+interface Incident {
+  user: string;
+  at: number;
+  pattern: ChatPattern;
+}
+
+/**
+ * Decides when to turn Shield Mode on (high-severity toxicity or spam from several users within
+ * the window) and off again (no such incidents for the quiet period). Only Shield Mode turned on
+ * by this rule is turned off by it.
+ */
+export class ShieldModeRule {
+  private config: ShieldModeRuleConfig;
+  private incidents: Incident[] = [];
+  private lastIncidentAt = 0;
+  private active = false;
+  private activatedAt = 0;
+  private lastProposalAt = -Infinity;
+  private external = false; // turned on by someone else, so left alone
+
+  constructor(config: ShieldModeRuleConfig) {
+    this.config = config;
+  }
+
+  updateConfig(config: ShieldModeRuleConfig): void {
+    this.config = config;
+  }
+
+  /**
+   * Record the analyzer's high-severity toxicity and spam patterns
+   */
+  observe(patterns: ChatPattern[], now: number = Date.now()): void {
+    for (const pattern of patterns) {
+      if ((pattern.type !== 'toxicity' && pattern.type !== 'spam') ||
+          pattern.severity < this.config.minSeverity || pattern.confidence < 0.6) {
+        continue;
+      }
+
+      for (const user of pattern.users) {
+        this.incidents.push({ user: user.toLowerCase(), at: now, pattern });
+      }
+      this.lastIncidentAt = now;
+    }
+  }
+
+  /**
+   * The Shield Mode transition due now, if any. A proposal that wasn't confirmed (held for
+   * approval or failed) is repeated at most once per window.
+   */
+  evaluate(now: number = Date.now()): ActionDecision | null {
+    const windowMs = this.config.windowMinutes * 60 * 1000;
+    this.incidents = this.incidents.filter(i => i.at >= now - windowMs);
+    if (this.external || now - this.lastProposalAt < windowMs) {
+      return null;
+    }
+
+    if (!this.active) {
+      const users = new Set(this.incidents.map(i => i.user));
+      if (users.size < this.config.minUsers) {
+        return null;
+      }
+
+      this.lastProposalAt = now;
+      const patterns = Array.from(new Set(this.incidents.map(i => i.pattern)));
+      return {
+        id: randomUUID(),
+        action: 'setShieldMode',
+        parameters: { active: true },
+        reason: `High-severity toxicity/spam from ${users.size} users in the last ${this.config.windowMinutes} min`,
+        confidence: Math.max(...patterns.map(p => p.confidence)),
+        patterns,
+        timestamp: new Date(now)
+      };
+    }
+
+    const quietSince = Math.max(this.lastIncidentAt, this.activatedAt);
+    if (now - quietSince < this.config.quietMinutes * 60 * 1000) {
+      return null;
+    }
+
+    this.lastProposalAt = now;
+    return {
+      id: randomUUID(),
+      action: 'setShieldMode',
+      parameters: { active: false },
+      reason: `No high-severity toxicity or spam for ${this.config.quietMinutes} min`,
+      confidence: 0.9,
+      patterns: [],
+      timestamp: new Date(now)
+    };
+  }
+
+  /**
+   * Record that a proposed transition took effect (or was logged in shadow mode)
+   */
+  confirm(active: boolean, now: number = Date.now()): void {
+    this.active = active;
+    this.activatedAt = active ? now : 0;
+    this.lastProposalAt = -Infinity;
+    if (!active) {
+      this.incidents = [];
+    }
+  }
+
+  getStatus(): { active: boolean; external: boolean; incidentUsers: number; lastIncidentAt: Date | null } {
+    return {
+      active: this.active,
+      external: this.external,
+      incidentUsers: new Set(this.incidents.map(i => i.user)).size,
+      lastIncidentAt: this.lastIncidentAt ? new Date(this.lastIncidentAt) : null
+    };
+  }
+
+  /**
+   * Shield Mode was switched outside this rule. While someone else has it on, the rule
+   * neither turns it on nor off.
+   */
+  noteExternalChange(active: boolean): void {
+    this.confirm(false);
+    this.external = active;
+  }
+}
@@ -0,0 +1,287 @@
+// Typed model for stream events (follows, subs, raids, cheers, redemptions, AutoMod holds) received over EventSub
+
+export type StreamEventType =
+  | 'follow'
+  | 'subscription'
+  | 'resubscription'
+  | 'giftSubscription'
+  | 'raid'
+  | 'cheer'
+  | 'redemption'
+  | 'automodHold'
+  | 'automodUpdate';
+
+export interface StreamEventUser {
+  id: string;
+  login: string;
+  displayName: string;
+}
+
+interface StreamEventBase {
+  id: string; // EventSub message id, unique per delivery
+  timestamp: Date;
+}
+
+export interface FollowEvent extends StreamEventBase {
+  type: 'follow';
+  user: StreamEventUser;
+  followedAt: Date;
+}
+
+export interface SubscriptionEvent extends StreamEventBase {
+  type: 'subscription';
+  user: StreamEventUser;
+  tier: string; // '1000', '2000' or '3000'
+  isGift: boolean;
+}
+
+export interface ResubscriptionEvent extends StreamEventBase {
+  type: 'resubscription';
+  user: StreamEventUser;
+  tier: string;
+  cumulativeMonths: number;
+  streakMonths?: number; // only set when the user shares their streak
+  message: string;
+}
+
+export interface GiftSubscriptionEvent extends StreamEventBase {
+  type: 'giftSubscription';
+  user: StreamEventUser | null; // null for anonymous gifts
+  tier: string;
+  total: number; // subscriptions gifted in this event
+  cumulativeTotal?: number; // all-time gifts in the channel, if the gifter shares it
+}
+
+export interface RaidEvent extends StreamEventBase {
+  type: 'raid';
+  from: StreamEventUser; // the raiding broadcaster
+  viewers: number;
+}
+
+export interface CheerEvent extends StreamEventBase {
+  type: 'cheer';
+  user: StreamEventUser | null; // null for anonymous cheers
+  bits: number;
+  message: string;
+}
+
+export interface RedemptionEvent extends StreamEventBase {
+  type: 'redemption';
+  user: StreamEventUser;
+  reward: { id: string; title: string; cost: number };
+  input: string; // text the viewer entered, empty for rewards without input
+  status: string; // 'unfulfilled', 'fulfilled', 'canceled' or 'unknown'
+}
+
+// A chat message AutoMod (or a blocked term) held for review; it never reaches IRC unless approved
+export interface AutoModHoldEvent extends StreamEventBase {
+  type: 'automodHold';
+  user: StreamEventUser;
+  messageId: string;
+  text: string;
+  reason: 'automod' | 'blocked_term';
+  category?: string; // AutoMod category, e.g. 'swearing' or 'aggression'
+  level?: number; // AutoMod level 1-4
+  blockedTerms: string[]; // the held parts of the message when blocked terms matched
+  heldAt: Date;
+}
+
+// A held message was approved, denied or expired, by us or another moderator
+export interface AutoModUpdateEvent extends StreamEventBase {
+  type: 'automodUpdate';
+  user: StreamEventUser;
+  messageId: string;
+  status: 'approved' | 'denied' | 'expired';
+  moderator: StreamEventUser | null;
+}
+
+export type StreamEvent =
+  | FollowEvent
+  | SubscriptionEvent
+  | ResubscriptionEvent
+  | GiftSubscriptionEvent
+  | RaidEvent
+  | CheerEvent
+  | RedemptionEvent
+  | AutoModHoldEvent
+  | AutoModUpdateEvent;
+
+// EventSub subscription type and version behind each stream event type
+export const EVENTSUB_SUBSCRIPTIONS: Record<StreamEventType, { type: string; version: string }> = {
+  follow: { type: 'channel.follow', version: '2' },
+  subscription: { type: 'channel.subscribe', version: '1' },
+  resubscription: { type: 'channel.subscription.message', version: '1' },
+  giftSubscription: { type: 'channel.subscription.gift', version: '1' },
+  raid: { type: 'channel.raid', version: '1' },
+  cheer: { type: 'channel.cheer', version: '1' },
+  redemption: { type: 'channel.channel_points_custom_reward_redemption.add', version: '1' },
+  automodHold: { type: 'automod.message.hold', version: '2' },
+  automodUpdate: { type: 'automod.message.update', version: '2' }
+};
+
+/**
+ * Convert an EventSub notification's event payload into a stream event.
+ * Returns null for subscription types the model doesn't cover and for events missing their user.
+ */
+export function normalizeEventSubEvent(
+  subscriptionType: string,
+  event: Record<string, any>,
+  messageId: string,
+  timestamp: Date
+): StreamEvent | null {
+  const base = { id: messageId, timestamp };
+  const user = eventUser(event, 'user');
+
+  switch (subscriptionType) {
+    case 'channel.follow':
+      return user && {
+        ...base,
+        type: 'follow',
+        user,
+        followedAt: event.followed_at ? new Date(event.followed_at) : timestamp
+      };
+
+    case 'channel.subscribe':
+      return user && {
+        ...base,
+        type: 'subscription',
+        user,
+        tier: String(event.tier),
+        isGift: event.is_gift === true
+      };
+
+    case 'channel.subscription.message':
+      return user && {
+        ...base,
+        type: 'resubscription',
+        user,
+        tier: String(event.tier),
+        cumulativeMonths: Number(event.cumulative_months) || 0,
+        ...(typeof event.streak_months === 'number' ? { streakMonths: event.streak_months } : {}),
+        message: event.message?.text || ''
+      };
+
+    case 'channel.subscription.gift':
+      return {
+        ...base,
+        type: 'giftSubscription',
+        user: event.is_anonymous ? null : user,
+        tier: String(event.tier),
+        total: Number(event.total) || 0,
+        ...(typeof event.cumulative_total === 'number' ? { cumulativeTotal: event.cumulative_total } : {})
+      };
+
+    case 'channel.raid': {
+      const from = eventUser(event, 'from_broadcaster_user');
+      return from && {
+        ...base,
+        type: 'raid',
+        from,
+        viewers: Number(event.viewers) || 0
+      };
+    }
+
+    case 'channel.cheer':
+      return {
+        ...base,
+        type: 'cheer',
+        user: event.is_anonymous ? null : user,
+        bits: Number(event.bits) || 0,
+        message: event.message || ''
+      };
+
+    case 'channel.channel_points_custom_reward_redemption.add':
+      return user && {
+        ...base,
+        type: 'redemption',
+        user,
+        reward: {
+          id: event.reward?.id || '',
+          title: event.reward?.title || '',
+          cost: Number(event.reward?.cost) || 0
+        },
+        input: event.user_input || '',
+        status: event.status || 'unknown'
+      };
+
+    case 'automod.message.hold': {
+      const text = event.message?.text || '';
+      return user && {
+        ...base,
+        type: 'automodHold',
+        user,
+        messageId: event.message_id || '',
+        text,
+        reason: event.reason === 'blocked_term' ? 'blocked_term' : 'automod',
+        ...(event.automod?.category ? { category: event.automod.category } : {}),
+        ...(typeof event.automod?.level === 'number' ? { level: event.automod.level } : {}),
+        blockedTerms: (event.blocked_term?.terms_found || [])
+          .map((term: any) => text.substring(term.boundary?.start_pos ?? 0, (term.boundary?.end_pos ?? -1) + 1))
+          .filter(Boolean),
+        heldAt: event.held_at ? new Date(event.held_at) : timestamp
+      };
+    }
+
+    case 'automod.message.update': {
+      const status = String(event.status || '').toLowerCase();
+      return user && {
+        ...base,
+        type: 'automodUpdate',
+        user,
+        messageId: event.message_id || '',
+        status: status === 'approved' || status === 'denied' ? status : 'expired',
+        moderator: eventUser(event, 'moderator_user')
+      };
+    }
+
+    default:
+      return null;
+  }
+}
+
+/**
+ * One-line description of a stream event, for prompts and logs
+ */
+export function describeStreamEvent(event: StreamEvent): string {
+  const name = (user: StreamEventUser | null) => user ? user.displayName || user.login : 'An anonymous user';
+  const tier = (value: string) => `tier ${Number(value) / 1000 || value}`;
+
+  switch (event.type) {
+    case 'follow':
+      return `${name(event.user)} followed`;
+    case 'subscription':
+      return `${name(event.user)} subscribed (${tier(event.tier)}${event.isGift ? ', gifted' : ''})`;
+    case 'resubscription':
+      return `${name(event.user)} resubscribed for ${event.cumulativeMonths} months (${tier(event.tier)})` +
+        (event.message ? `: "${event.message}"` : '');
+    case 'giftSubscription':
+      return `${name(event.user)} gifted ${event.total} ${tier(event.tier)} subscription(s)`;
+    case 'raid':
+      return `${name(event.from)} raided with ${event.viewers} viewers`;
+    case 'cheer':
+      return `${name(event.user)} cheered ${event.bits} bits` + (event.message ? `: "${event.message}"` : '');
+    case 'redemption':
+      return `${name(event.user)} redeemed "${event.reward.title}" (${event.reward.cost} points)` +
+        (event.input ? `: "${event.input}"` : '');
+    case 'automodHold':
+      return `AutoMod held a message from ${name(event.user)}` +
+        (event.reason === 'blocked_term' ? ' (blocked term)' : event.category ? ` (${event.category}, level ${event.level ?? '?'})` : '') +
+        `: "${event.text}"`;
+    case 'automodUpdate':
+      return `A held message from ${name(event.user)} was ${event.status}` +
+        (event.moderator ? ` by ${name(event.moderator)}` : '');
+  }
+}
+
+function eventUser(event: Record<string, any>, prefix: string): StreamEventUser | null {
+  const id = event[`${prefix}_id`];
+  if (!id) {
+    return null;
+  }
+
+  return {
+    id: String(id),
+    login: event[`${prefix}_login`] || '',
+    displayName: event[`${prefix}_name`] || event[`${prefix}_login`] || ''
+  };
+}
@@ -0,0 +1,143 @@
+import { EscalationStep, StrikeLadderConfig } from './autonomous-types';
+
+export interface Strike {
+  timestamp: Date;
+  action: string; // MCP tool that was executed
+  reason: string;
+  duration?: number; // timeout duration in seconds
+  actionId?: string; // autonomous action that issued the strike; absent for manual tool calls
+}
+
+export interface UserStrikeSummary {
+  username: string;
+  userId?: string;
+  activeStrikes: Strike[];
+  nextStep: EscalationStep;
+  nextDecay: Date | null; // when the oldest active strike expires
+}
+
+interface UserStrikeRecord {
+  username: string;
+  userId?: string;
+  strikes: Strike[];
+}
+
+const DEFAULT_STEP: EscalationStep = { action: 'timeout', duration: 600 };
+
+/**
+ * Per-user offense ledger that turns repeat offenses into escalating punishments
+ */
+export class StrikeLedger {
+  private config: StrikeLadderConfig;
+  private records: Map<string, UserStrikeRecord> = new Map(); // keyed by lowercase login
+
+  constructor(config: StrikeLadderConfig) {
+    this.config = config;
+  }
+
+  /**
+   * Record a punishment against a user
+   */
+  addStrike(username: string, strike: Strike, userId?: string): void {
+    const key = username.toLowerCase();
+    const record = this.records.get(key) || { username, strikes: [] };
+
+    if (userId) {
+      record.userId = userId;
+    }
+    record.strikes.push(strike);
+    this.records.set(key, record);
+  }
+
+  /**
+   * Remove the strike an autonomous action issued, e.g. when the punishment is reversed as a mistake
+   */
+  removeStrike(username: string, actionId: string): boolean {
+    const record = this.records.get(username.toLowerCase());
+    const index = record ? record.strikes.findIndex(s => s.actionId === actionId) : -1;
+    if (!record || index === -1) {
+      return false;
+    }
+
+    record.strikes.splice(index, 1);
+    return true;
+  }
+
+  /**
+   * Strikes that haven't decayed yet
+   */
+  getActiveStrikes(username: string): Strike[] {
+    const record = this.records.get(username.toLowerCase());
+    if (!record) {
+      return [];
+    }
+
+    this.pruneDecayed(record);
+    return [...record.strikes];
+  }
+
+  /**
+   * The ladder step for the user's next offense
+   */
+  getNextStep(username: string): EscalationStep {
+    const steps = this.config.steps;
+    if (steps.length === 0) {
+      return DEFAULT_STEP;
+    }
+
+    const activeCount = this.getActiveStrikes(username).length;
+    return steps[Math.min(activeCount, steps.length - 1)];
+  }
+
+  /**
+   * Active strikes and next step for one user
+   */
+  getSummary(username: string): UserStrikeSummary {
+    const record = this.records.get(username.toLowerCase());
+    const activeStrikes = this.getActiveStrikes(username);
+
+    return {
+      username: record?.username || username,
+      userId: record?.userId,
+      activeStrikes,
+      nextStep: this.getNextStep(username),
+      nextDecay: activeStrikes.length > 0
+        ? new Date(activeStrikes[0].timestamp.getTime() + this.decayMs())
+        : null
+    };
+  }
+
+  /**
+   * Summaries for every user with at least one active strike
+   */
+  getAllSummaries(): UserStrikeSummary[] {
+    const summaries: UserStrikeSummary[] = [];
+
+    for (const [key, record] of this.records) {
+      this.pruneDecayed(record);
+      if (record.strikes.length === 0) {
+        this.records.delete(key);
+        continue;
+      }
+      summaries.push(this.getSummary(record.username));
+    }
+
+    return summaries.sort((a, b) => b.activeStrikes.length - a.activeStrikes.length);
+  }
+
+  /**
+   * Update configuration
+   */
+  updateConfig(newConfig: StrikeLadderConfig): void {
+    this.config = newConfig;
+  }
+
+  private pruneDecayed(record: UserStrikeRecord): void {
+    const cutoff = Date.now() - this.decayMs();
+    record.strikes = record.strikes.filter(strike => strike.timestamp.getTime() > cutoff);
+  }
+
+  private decayMs(): number {
+    return this.config.decayHours * 60 * 60 * 1000;
+  }
+}
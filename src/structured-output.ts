@@ -0,0 +1,289 @@
+import { z } from 'zod';
+import { AIAnalysisFunction, AnalysisContext, PromptType } from './pattern-analyzer';
+
+// Response shapes for every analysis and decision prompt
+export const ToxicityResponseSchema = z.array(z.object({
+  messageIndex: z.number().int(),
+  toxicityScore: z.number().min(0).max(10),
+  reason: z.string().default(''),
+  action: z.string().default('ignore'),
+  username: z.string().optional(),
+  confidence: z.number().min(0).max(1).optional(),
+  detector: z.string().optional()
+}));
+
+export const SpamResponseSchema = z.array(z.object({
+  messageIndex: z.number().int(),
+  spamScore: z.number().min(0).max(10),
+  reason: z.string().default(''),
+  action: z.string().default('ignore'),
+  username: z.string().optional(),
+  confidence: z.number().min(0).max(1).optional(),
+  detector: z.string().optional()
+}));
+
+export const EngagementResponseSchema = z.array(z.object({
+  messageIndex: z.number().int(),
+  engagementScore: z.number().min(0).max(10),
+  reason: z.string().default(''),
+  suggestedResponse: z.string().optional(),
+  username: z.string().optional(),
+  confidence: z.number().min(0).max(1).optional(),
+  detector: z.string().optional()
+}));
+
+export const SentimentResponseSchema = z.object({
+  overallSentiment: z.number().min(-1).max(1),
+  reasoning: z.string().default(''),
+  keyIndicators: z.array(z.string()).default([])
+});
+
+export const ActivityResponseSchema = z.object({
+  activityLevel: z.number().min(0).max(10),
+  description: z.string().default(''),
+  recommendations: z.array(z.string()).default([])
+});
+
+export const CombinedResponseSchema = z.object({
+  toxicity: ToxicityResponseSchema.default([]),
+  spam: SpamResponseSchema.default([]),
+  engagement: EngagementResponseSchema.default([]),
+  sentiment: SentimentResponseSchema,
+  activity: ActivityResponseSchema
+});
+
+export const ActionSelectionResponseSchema = z.array(z.object({
+  action: z.string().min(1),
+  parameters: z.record(z.any()).default({}),
+  reason: z.string().min(1),
+  confidence: z.number().min(0).max(1).optional(),
+  targetPattern: z.string().optional()
+}));
+
+export const ParameterGenerationResponseSchema = z.record(z.any());
+
+export type ToxicityResponse = z.infer<typeof ToxicityResponseSchema>;
+export type SpamResponse = z.infer<typeof SpamResponseSchema>;
+export type EngagementResponse = z.infer<typeof EngagementResponseSchema>;
+export type SentimentResponse = z.infer<typeof SentimentResponseSchema>;
+export type ActivityResponse = z.infer<typeof ActivityResponseSchema>;
+export type ActionSelectionResponse = z.infer<typeof ActionSelectionResponseSchema>;
+
+export interface ParseStats {
+  failures: number; // first responses that didn't parse or validate
+  repaired: number; // failures fixed by the repair prompt
+  repairFailures: number; // failures the repair prompt couldn't fix
+}
+
+export interface UsageTotals {
+  calls: number;
+  latencyMs: number;
+  promptTokens: number;
+  completionTokens: number;
+  estimatedCalls: number; // calls whose tokens were estimated because the provider didn't report usage
+}
+
+/**
+ * Pull a JSON value out of a model response that may wrap it in markdown fences or prose
+ */
+export function extractJson(text: string): unknown {
+  const trimmed = text.trim();
+
+  try {
+    return JSON.parse(trimmed);
+  } catch {
+    // fall through to the tolerant paths
+  }
+
+  const fenced = trimmed.match(/```(?:json)?\s*([\s\S]*?)```/i);
+  if (fenced) {
+    try {
+      return JSON.parse(fenced[1].trim());
+    } catch {
+      // fall through to bracket scanning
+    }
+  }
+
+  // Try each opening bracket until one yields a balanced, parseable value
+  for (let start = 0; start < trimmed.length; start++) {
+    const open = trimmed[start];
+    if (open !== '{' && open !== '[') continue;
+
+    const end = findMatchingBracket(trimmed, start);
+    if (end < 0) continue;
+
+    try {
+      return JSON.parse(trimmed.substring(start, end + 1));
+    } catch {
+      // keep scanning
+    }
+  }
+
+  throw new Error('No JSON value found in response');
+}
+
+/**
+ * Find the bracket that closes the one at `start`, ignoring brackets inside strings
+ */
+function findMatchingBracket(text: string, start: number): number {
+  const stack: string[] = [];
+  let inString = false;
+  let escaped = false;
+
+  for (let i = start; i < text.length; i++) {
+    const char = text[i];
+
+    if (inString) {
+      if (escaped) {
+        escaped = false;
+      } else if (char === '\\') {
+        escaped = true;
+      } else if (char === '"') {
+        inString = false;
+      }
+      continue;
+    }
+
+    if (char === '"') {
+      inString = true;
+    } else if (char === '{' || char === '[') {
+      stack.push(char === '{' ? '}' : ']');
+    } else if (char === '}' || char === ']') {
+      if (stack.pop() !== char) return -1;
+      if (stack.length === 0) return i;
+    }
+  }
+
+  return -1;
+}
+
+/**
+ * Validates model responses against a schema and re-asks the model once when they don't fit
+ */
+export class StructuredOutputParser {
+  private aiAnalyze: AIAnalysisFunction;
+  private stats: Map<PromptType, ParseStats> = new Map();
+  private usage: UsageTotals = { calls: 0, latencyMs: 0, promptTokens: 0, completionTokens: 0, estimatedCalls: 0 };
+
+  constructor(aiAnalyzeFunction: AIAnalysisFunction) {
+    this.aiAnalyze = aiAnalyzeFunction;
+  }
+
+  /**
+   * Send a prompt and return the validated response, or null if it couldn't be repaired
+   */
+  async request<T extends z.ZodTypeAny>(
+    prompt: string,
+    schema: T,
+    context: AnalysisContext
+  ): Promise<z.infer<T> | null> {
+    const response = await this.call(prompt, context);
+    const first = this.validate(response, schema);
+    if (first.success) {
+      return first.data;
+    }
+
+    const stats = this.getStatsFor(context.promptType);
+    stats.failures++;
+
+    const repairPrompt = `${prompt}
+
+Your previous response could not be used: ${first.error}
+Previous response:
+${response.substring(0, 1000)}
+
+Respond again with only valid JSON in exactly the requested format.`;
+
+    try {
+      const repairedResponse = await this.call(repairPrompt, context);
+      const second = this.validate(repairedResponse, schema);
+      if (second.success) {
+        stats.repaired++;
+        return second.data;
+      }
+      console.error(`Structured output repair failed for ${context.promptType}: ${second.error}`);
+    } catch (error) {
+      console.error(`Structured output repair request failed for ${context.promptType}:`, error);
+    }
+
+    stats.repairFailures++;
+    return null;
+  }
+
+  /**
+   * Parse failure counts per prompt type
+   */
+  getStats(): Record<string, ParseStats> {
+    const result: Record<string, ParseStats> = {};
+    for (const [promptType, stats] of this.stats) {
+      result[promptType] = { ...stats };
+    }
+    return result;
+  }
+
+  /**
+   * Token and latency totals across every call
+   */
+  getUsage(): UsageTotals {
+    return { ...this.usage };
+  }
+
+  /**
+   * Call the model and record latency and token usage
+   */
+  private async call(prompt: string, context: AnalysisContext): Promise<string> {
+    let reported: { promptTokens: number; completionTokens: number } | undefined;
+    const startedAt = Date.now();
+
+    const response = await this.aiAnalyze(prompt, {
+      ...context,
+      reportUsage: usage => { reported = usage; }
+    });
+
+    this.usage.calls++;
+    this.usage.latencyMs += Date.now() - startedAt;
+    if (reported) {
+      this.usage.promptTokens += reported.promptTokens;
+      this.usage.completionTokens += reported.completionTokens;
+    } else {
+      // Roughly four characters per token for English text
+      this.usage.promptTokens += Math.ceil(prompt.length / 4);
+      this.usage.completionTokens += Math.ceil(response.length / 4);
+      this.usage.estimatedCalls++;
+    }
+
+    return response;
+  }
+
+  private validate<T extends z.ZodTypeAny>(
+    response: string,
+    schema: T
+  ): { success: true; data: z.infer<T> } | { success: false; error: string } {
+    let json: unknown;
+    try {
+      json = extractJson(response);
+    } catch (error) {
+      return { success: false, error: (error as Error).message };
+    }
+
+    const result = schema.safeParse(json);
+    if (!result.success) {
+      const issues = result.error.issues
+        .slice(0, 5)
+        .map(issue => `${issue.path.join('.') || '(root)'}: ${issue.message}`)
+        .join('; ');
+      return { success: false, error: `Schema validation failed - ${issues}` };
+    }
+
+    return { success: true, data: result.data };
+  }
+
+  private getStatsFor(promptType: PromptType): ParseStats {
+    let stats = this.stats.get(promptType);
+    if (!stats) {
+      stats = { failures: 0, repaired: 0, repairFailures: 0 };
+      this.stats.set(promptType, stats);
+    }
+    return stats;
+  }
+}
@@ -0,0 +1,143 @@
+import { ChatMessage } from './autonomous-types';
+
+// Keywords used when the target is described ("the toxic one") rather than named
+export const DESCRIPTOR_KEYWORDS: Record<string, string[]> = {
+  toxic: ["idiot", "stupid", "hate", "kill", "dumb", "trash", "noob", "loser", "shut up", "annoying", "toxic", "rude", "mean", "sucks", "bad", "worst", "report", "ban"],
+  spam: ["buy followers", "free", "promo", "visit", "http", "www", "spam", "emote", "caps", "repeated"],
+  rude: ["shut up", "idiot", "stupid", "dumb", "annoying", "rude", "mean", "trash", "loser", "bad", "worst"]
+};
+
+const DESCRIPTOR_ALIASES: Record<string, string> = {
+  spammer: 'spam',
+  spamming: 'spam'
+};
+
+const LOGIN_PATTERN = /^[a-zA-Z0-9_]{3,25}$/;
+const CANDIDATE_MESSAGES = 3;
+
+export type TargetMatch = 'login' | 'displayName' | 'fuzzy' | 'descriptor' | 'unseen';
+
+export interface TargetCandidate {
+  username: string;
+  displayName?: string;
+  userId?: string;
+  matchedBy: TargetMatch;
+  recentMessages: string[]; // newest last
+}
+
+export type TargetResolution =
+  | { status: 'resolved'; input: string; target: TargetCandidate }
+  | { status: 'ambiguous'; input: string; candidates: TargetCandidate[] }
+  | { status: 'notFound'; input: string };
+
+/**
+ * Resolve a username, display name or descriptor to a single chatter.
+ *
+ * Order: exact login, exact display name, descriptor keywords, then substring matches.
+ * Anything other than an exact login only resolves when exactly one chatter matches;
+ * otherwise the candidates are returned instead of a guess. A well-formed login that
+ * matches nobody in chat resolves as 'unseen' so users who haven't chatted recently
+ * can still be targeted.
+ */
+export function resolveTarget(input: string, messages: ChatMessage[]): TargetResolution {
+  const name = input.trim().replace(/^.*user named\s+/i, '').replace(/^@/, '').trim();
+  if (!name) {
+    return { status: 'notFound', input };
+  }
+
+  const lowered = name.toLowerCase();
+  const chatters = groupByUser(messages);
+
+  const login = chatters.find(c => c.username.toLowerCase() === lowered);
+  if (login) {
+    return { status: 'resolved', input, target: { ...login, matchedBy: 'login' } };
+  }
+
+  const displayNames = chatters.filter(c => c.displayName?.toLowerCase() === lowered);
+  const byDisplayName = pickOne(input, displayNames, 'displayName');
+  if (byDisplayName) {
+    return byDisplayName;
+  }
+
+  const descriptor = DESCRIPTOR_ALIASES[lowered] || lowered;
+  const keywords = DESCRIPTOR_KEYWORDS[descriptor];
+  if (keywords) {
+    const matches = chatters
+      .map(chatter => ({ chatter, score: scoreDescriptor(chatter, messages, keywords) }))
+      .filter(m => m.score > 0)
+      .sort((a, b) => b.score - a.score)
+      .map(m => m.chatter);
+    const byDescriptor = pickOne(input, matches, 'descriptor');
+    if (byDescriptor) {
+      return byDescriptor;
+    }
+  }
+
+  const fuzzy = chatters.filter(c =>
+    c.username.toLowerCase().includes(lowered) || c.displayName?.toLowerCase().includes(lowered)
+  );
+  const byFuzzy = pickOne(input, fuzzy, 'fuzzy');
+  if (byFuzzy) {
+    return byFuzzy;
+  }
+
+  if (LOGIN_PATTERN.test(name)) {
+    return { status: 'resolved', input, target: { username: name, matchedBy: 'unseen', recentMessages: [] } };
+  }
+
+  return { status: 'notFound', input };
+}
+
+/**
+ * One-line summary of the candidates for an ambiguous resolution
+ */
+export function describeCandidates(candidates: TargetCandidate[]): string {
+  return candidates.map(c => c.displayName && c.displayName.toLowerCase() !== c.username.toLowerCase()
+    ? `${c.username} (${c.displayName})`
+    : c.username
+  ).join(', ');
+}
+
+function pickOne(
+  input: string,
+  candidates: Omit<TargetCandidate, 'matchedBy'>[],
+  matchedBy: TargetMatch
+): TargetResolution | null {
+  if (candidates.length === 0) {
+    return null;
+  }
+
+  const tagged = candidates.map(c => ({ ...c, matchedBy }));
+  if (tagged.length === 1) {
+    return { status: 'resolved', input, target: tagged[0] };
+  }
+  return { status: 'ambiguous', input, candidates: tagged };
+}
+
+function groupByUser(messages: ChatMessage[]): Omit<TargetCandidate, 'matchedBy'>[] {
+  const chatters = new Map<string, Omit<TargetCandidate, 'matchedBy'>>();
+
+  for (const message of messages) {
+    const key = message.username.toLowerCase();
+    const chatter = chatters.get(key) || { username: message.username, recentMessages: [] };
+    if (message.displayName) chatter.displayName = message.displayName;
+    if (message.userId) chatter.userId = message.userId;
+    chatter.recentMessages.push(message.content);
+    if (chatter.recentMessages.length > CANDIDATE_MESSAGES) {
+      chatter.recentMessages.shift();
+    }
+    chatters.set(key, chatter);
+  }
+
+  return Array.from(chatters.values());
+}
+
+function scoreDescriptor(chatter: Omit<TargetCandidate, 'matchedBy'>, messages: ChatMessage[], keywords: string[]): number {
+  let score = 0;
+  for (const message of messages) {
+    if (message.username !== chatter.username) continue;
+    const content = message.content.toLowerCase();
+    score += keywords.filter(keyword => content.includes(keyword)).length;
+  }
+  return score;
+}
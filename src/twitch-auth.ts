@@ -0,0 +1,287 @@
+// OAuth token validation, scope checking and refresh for the configured Twitch token
+
+interface TwitchAuthConfig {
+  clientId: string;
+  accessToken: string;
+  refreshToken?: string;
+  clientSecret?: string; // refresh needs both the refresh token and the client secret
+}
+
+export interface AuthStatus {
+  valid: boolean | null; // null until the token has been validated
+  login?: string;
+  userId?: string;
+  scopes: string[];
+  expiresAt: Date | null; // null for tokens without an expiry
+  lastValidated: Date | null;
+  lastRefreshed: Date | null;
+  canRefresh: boolean;
+  error?: string;
+}
+
+// Why a tool can't be used with the current token, or null when it can
+export interface ToolAvailabilityCheck {
+  (toolName: string, parameters?: Record<string, any>): string | null;
+}
+
+/**
+ * Scopes each tool needs from the token. Tools that only read local state are left out.
+ * Raid defense lists the scopes of all its measures; a given lockdown only needs those of
+ * the measures it uses (see raidDefenseScopes).
+ */
+export const TOOL_SCOPES: Record<string, string[]> = {
+  sendMessageToChat: ['chat:edit'],
+  warnUser: ['moderator:manage:warnings'],
+  deleteChatMessage: ['moderator:manage:chat_messages'],
+  timeoutUser: ['moderator:manage:banned_users'],
+  banUser: ['moderator:manage:banned_users'],
+  unbanUser: ['moderator:manage:banned_users'],
+  removeTimeout: ['moderator:manage:banned_users'],
+  getUserProfile: ['moderator:read:followers', 'moderation:read'],
+  getChatSettings: ['moderator:read:chat_settings'],
+  updateChatSettings: ['moderator:manage:chat_settings'],
+  activateRaidDefense: ['moderator:manage:chat_settings', 'moderator:manage:banned_users', 'moderator:manage:shield_mode'],
+  endRaidDefense: ['moderator:manage:chat_settings', 'moderator:manage:shield_mode'],
+  getShieldModeStatus: ['moderator:read:shield_mode'],
+  setShieldMode: ['moderator:manage:shield_mode'],
+  listAutoModQueue: ['moderator:manage:automod'],
+  resolveAutoModMessage: ['moderator:manage:automod'],
+  listBlockedTerms: ['moderator:read:blocked_terms'],
+  addBlockedTerm: ['moderator:manage:blocked_terms'],
+  removeBlockedTerm: ['moderator:manage:blocked_terms'],
+  createTwitchPoll: ['channel:manage:polls'],
+  createTwitchPrediction: ['channel:manage:predictions'],
+  createTwitchClip: ['clips:edit'],
+  updateStreamTitle: ['channel:manage:broadcast'],
+  updateStreamCategory: ['channel:manage:broadcast']
+};
+
+/**
+ * Tools that still work in a reduced way without their scopes: the scopes the fallback needs,
+ * and what the tool does instead
+ */
+export const DEGRADED_FALLBACKS: Record<string, { scopes: string[]; fallback: string }> = {
+  warnUser: { scopes: ['chat:edit'], fallback: 'warnings are sent as chat replies instead of Helix warnings' }
+};
+
+// Scopes that also grant a required scope for the endpoints used here (a manage scope covers its read)
+const COVERING_SCOPES: Record<string, string[]> = {
+  'moderator:read:chat_settings': ['moderator:manage:chat_settings'],
+  'moderator:read:shield_mode': ['moderator:manage:shield_mode'],
+  'moderator:read:blocked_terms': ['moderator:manage:blocked_terms'],
+  'moderation:read': ['moderator:manage:banned_users']
+};
+
+const VALIDATE_URL = 'https://id.twitch.tv/oauth2/validate';
+const TOKEN_URL = 'https://id.twitch.tv/oauth2/token';
+
+// Refresh ahead of expiry, so the token doesn't lapse between validations
+const REFRESH_MARGIN_MS = 15 * 60 * 1000;
+
+/**
+ * Scopes a raid defense lockdown needs for the measures it switches on (or, when ending it, off)
+ */
+export function raidDefenseScopes(measures: { followersOnly?: boolean; emoteOnly?: boolean; shieldMode?: boolean; timeoutWave?: boolean }): string[] {
+  return [
+    ...(measures.followersOnly || measures.emoteOnly ? ['moderator:manage:chat_settings'] : []),
+    ...(measures.shieldMode ? ['moderator:manage:shield_mode'] : []),
+    ...(measures.timeoutWave ? ['moderator:manage:banned_users'] : [])
+  ];
+}
+
+/**
+ * Required scopes of a tool that the granted scopes don't cover; `required` overrides the
+ * tool's TOOL_SCOPES entry when a call needs fewer scopes
+ */
+export function missingScopes(toolName: string, granted: string[], required?: string[]): string[] {
+  return uncoveredScopes(required || TOOL_SCOPES[toolName] || [], granted);
+}
+
+function uncoveredScopes(required: string[], granted: string[]): string[] {
+  return required.filter(scope =>
+    !granted.includes(scope) && !(COVERING_SCOPES[scope] || []).some(covering => granted.includes(covering))
+  );
+}
+
+/**
+ * Holds the current Twitch token. Validates it against /oauth2/validate (Twitch expects this at
+ * startup and hourly), and refreshes it when it is invalid or about to expire, if a refresh
+ * token and client secret are configured. Refreshed tokens are kept in memory only.
+ */
+export class TwitchAuth {
+  private config: TwitchAuthConfig;
+  private accessToken: string;
+  private refreshToken?: string;
+  private status: AuthStatus;
+  private refreshing: Promise<boolean> | null = null;
+
+  constructor(config: TwitchAuthConfig) {
+    this.config = config;
+    this.accessToken = config.accessToken.replace(/^oauth:/, '');
+    this.refreshToken = config.refreshToken;
+    this.status = {
+      valid: null,
+      scopes: [],
+      expiresAt: null,
+      lastValidated: null,
+      lastRefreshed: null,
+      canRefresh: this.canRefresh()
+    };
+  }
+
+  getToken(): string {
+    return this.accessToken;
+  }
+
+  canRefresh(): boolean {
+    return !!(this.refreshToken && this.config.clientSecret);
+  }
+
+  /**
+   * Validate the token, refreshing it first if it is invalid or close to expiry.
+   * A network failure keeps the last known status.
+   */
+  async validate(): Promise<AuthStatus> {
+    const valid = await this.validateOnce();
+
+    const expiringSoon = this.status.expiresAt && this.status.expiresAt.getTime() - Date.now() < REFRESH_MARGIN_MS;
+    if (valid === false || (valid && expiringSoon)) {
+      await this.refresh();
+    }
+
+    return this.getStatus();
+  }
+
+  /**
+   * Exchange the refresh token for a new access token and validate it. Concurrent callers share
+   * one request; resolves false when refresh isn't configured or Twitch rejects it.
+   */
+  refresh(): Promise<boolean> {
+    if (!this.canRefresh()) {
+      return Promise.resolve(false);
+    }
+    if (!this.refreshing) {
+      this.refreshing = this.requestRefresh().finally(() => {
+        this.refreshing = null;
+      });
+    }
+    return this.refreshing;
+  }
+
+  getStatus(): AuthStatus {
+    return { ...this.status, scopes: [...this.status.scopes] };
+  }
+
+  missingScopes(toolName: string, required?: string[]): string[] {
+    return missingScopes(toolName, this.status.scopes, required);
+  }
+
+  /**
+   * Why a tool can't be used with the current token; null while the token hasn't been
+   * validated, so a validation outage doesn't disable everything
+   */
+  toolUnavailableReason(toolName: string, required?: string[]): string | null {
+    if (!TOOL_SCOPES[toolName] || this.status.valid === null) {
+      return null;
+    }
+    if (!this.status.valid) {
+      return 'the Twitch token is invalid or expired';
+    }
+
+    const missing = this.missingScopes(toolName, required);
+    if (missing.length === 0 || this.fallbackAvailable(toolName)) {
+      return null;
+    }
+    return `the Twitch token is missing ${missing.join(', ')}`;
+  }
+
+  /**
+   * How a tool is limited because the token lacks its scopes but has those of its fallback, or null
+   */
+  toolDegradedReason(toolName: string): string | null {
+    if (!this.status.valid || !this.fallbackAvailable(toolName)) {
+      return null;
+    }
+
+    const missing = this.missingScopes(toolName);
+    return missing.length > 0
+      ? `the Twitch token is missing ${missing.join(', ')}, so ${DEGRADED_FALLBACKS[toolName].fallback}`
+      : null;
+  }
+
+  private fallbackAvailable(toolName: string): boolean {
+    const fallback = DEGRADED_FALLBACKS[toolName];
+    return !!fallback && uncoveredScopes(fallback.scopes, this.status.scopes).length === 0;
+  }
+
+  private async validateOnce(): Promise<boolean | null> {
+    try {
+      const response = await fetch(VALIDATE_URL, {
+        headers: { 'Authorization': `OAuth ${this.accessToken}` }
+      });
+
+      if (response.status === 401) {
+        this.status = {
+          ...this.status,
+          valid: false,
+          scopes: [],
+          expiresAt: null,
+          lastValidated: new Date(),
+          error: 'Token is invalid or expired'
+        };
+        return false;
+      }
+      if (!response.ok) {
+        throw new Error(`HTTP ${response.status}`);
+      }
+
+      const body = await response.json() as { login?: string; user_id?: string; scopes?: string[]; expires_in?: number };
+      this.status = {
+        valid: true,
+        ...(body.login ? { login: body.login } : {}),
+        ...(body.user_id ? { userId: body.user_id } : {}),
+        scopes: body.scopes || [],
+        expiresAt: body.expires_in ? new Date(Date.now() + body.expires_in * 1000) : null,
+        lastValidated: new Date(),
+        lastRefreshed: this.status.lastRefreshed,
+        canRefresh: this.canRefresh()
+      };
+      return true;
+    } catch (error) {
+      this.status = { ...this.status, error: `Validation failed: ${(error as Error).message}` };
+      return null;
+    }
+  }
+
+  private async requestRefresh(): Promise<boolean> {
+    try {
+      const response = await fetch(TOKEN_URL, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/x-www-form-urlencoded' },
+        body: new URLSearchParams({
+          client_id: this.config.clientId,
+          client_secret: this.config.clientSecret!,
+          grant_type: 'refresh_token',
+          refresh_token: this.refreshToken!
+        }).toString()
+      });
+
+      if (!response.ok) {
+        const text = await response.text();
+        throw new Error(text || `HTTP ${response.status}`);
+      }
+
+      const body = await response.json() as { access_token: string; refresh_token?: string };
+      this.accessToken = body.access_token;
+      this.refreshToken = body.refresh_token || this.refreshToken;
+      this.status = { ...this.status, lastRefreshed: new Date() };
+      console.log('Twitch token refreshed');
+      await this.validateOnce();
+      return true;
+    } catch (error) {
+      this.status = { ...this.status, error: `Refresh failed: ${(error as Error).message}` };
+      console.error('Failed to refresh the Twitch token:', (error as Error).message);
+      return false;
+    }
+  }
+}
@@ -0,0 +1,81 @@
+import { ChatMessage, FeedbackEntry } from './autonomous-types';
+import { Strike } from './strike-ledger';
+
+export interface UserProfile {
+  username: string;
+  userId?: string;
+  displayName?: string;
+  accountCreatedAt?: Date;
+  followedAt?: Date | null; // null when the user doesn't follow the channel
+  moderationStatus?: {
+    banned: boolean; // permanently banned
+    timeoutExpiresAt?: Date; // set while timed out
+    reason?: string;
+  } | null; // null when the user is neither banned nor timed out
+  recentMessages: ChatMessage[]; // oldest first
+  activeStrikes: Strike[];
+  pastActions: FeedbackEntry[]; // autonomous actions that targeted the user, oldest first
+  lookupErrors: string[]; // Helix lookups that failed, e.g. because of a missing scope
+}
+
+export interface UserProfileProvider {
+  (username: string, userId?: string): Promise<UserProfile | null>;
+}
+
+/**
+ * Age of a date in the largest sensible unit, e.g. "3y", "5mo", "12d", "4h"
+ */
+export function formatAge(date: Date, now: Date = new Date()): string {
+  const hours = (now.getTime() - date.getTime()) / (60 * 60 * 1000);
+  if (hours < 48) return `${Math.max(0, Math.floor(hours))}h`;
+  const days = hours / 24;
+  if (days < 60) return `${Math.floor(days)}d`;
+  if (days < 730) return `${Math.floor(days / 30)}mo`;
+  return `${Math.floor(days / 365)}y`;
+}
+
+/**
+ * One-paragraph profile for prompts, kept short so it doesn't crowd out the pattern details
+ */
+export function formatCompactProfile(profile: UserProfile): string {
+  const parts: string[] = [];
+
+  parts.push(`${profile.username}${profile.userId ? ` (ID ${profile.userId})` : ''}`);
+  if (profile.accountCreatedAt) {
+    parts.push(`account age ${formatAge(profile.accountCreatedAt)}`);
+  }
+  if (profile.followedAt !== undefined) {
+    parts.push(profile.followedAt ? `following for ${formatAge(profile.followedAt)}` : 'not following');
+  }
+  if (profile.moderationStatus) {
+    parts.push(profile.moderationStatus.banned ? 'currently banned' : 'currently timed out');
+  }
+
+  const lastMessage = profile.recentMessages[profile.recentMessages.length - 1];
+  const roles = [
+    lastMessage?.isMod && 'moderator',
+    lastMessage?.isVip && 'VIP',
+    lastMessage?.isSubscriber && 'subscriber',
+    lastMessage?.firstMessage && 'first-time chatter'
+  ].filter(Boolean);
+  if (roles.length > 0) {
+    parts.push(roles.join(', '));
+  }
+
+  parts.push(profile.activeStrikes.length > 0
+    ? `${profile.activeStrikes.length} active strike(s): ${profile.activeStrikes.map(s => s.action).join(', ')}`
+    : 'no active strikes');
+
+  if (profile.pastActions.length > 0) {
+    const rated = profile.pastActions.filter(e => e.userFeedback);
+    parts.push(`${profile.pastActions.length} past autonomous action(s)` +
+      (rated.length > 0 ? `, ${rated.filter(e => e.userFeedback!.rating <= 2).length} rated as mistakes` : ''));
+  }
+
+  const recent = profile.recentMessages.slice(-3).map(m => `"${m.content.substring(0, 80)}"`);
+  if (recent.length > 0) {
+    parts.push(`recent messages: ${recent.join(' | ')}`);
+  }
+
+  return parts.join('; ');
+}
@@ -0,0 +1,157 @@
+import { ChatMessage, ProtectedUsersConfig } from './autonomous-types';
+
+export interface ProtectionTarget {
+  username?: string; // unknown when only the user id is known
+  userId?: string;
+}
+
+// Roles a user is known to have; a role is undefined when nothing tells either way
+export interface UserRoles {
+  isBroadcaster?: boolean;
+  isMod?: boolean;
+  isVip?: boolean;
+  isSubscriber?: boolean;
+}
+
+export interface UserRoleCacheStatus {
+  usersSeen: number;
+  moderators: number | null; // null until the list has been loaded
+  vips: number | null;
+  listsUpdatedAt: Date | null;
+}
+
+// Members of a channel role list from Helix
+interface RoleListMember {
+  id: string;
+  login: string;
+}
+
+const MAX_CACHED_USERS = 5000;
+
+/**
+ * Chat roles per user, from the badges of every message seen since startup and from the
+ * channel's moderator and VIP lists. Outlives the recent-message buffer, so a moderator
+ * who chatted an hour ago is still recognized.
+ */
+export class UserRoleCache {
+  private badgeRoles: Map<string, UserRoles> = new Map(); // keyed by user id, or login when the id is unknown
+  private loginIds: Map<string, string> = new Map(); // lowercase login -> user id
+  private moderators: { ids: Set<string>; logins: Set<string> } | null = null;
+  private vips: { ids: Set<string>; logins: Set<string> } | null = null;
+  private listsUpdatedAt: Date | null = null;
+
+  /**
+   * Remember the roles shown by a chat message's badges
+   */
+  observe(message: ChatMessage): void {
+    const login = message.username.toLowerCase();
+    const key = message.userId || login;
+    if (message.userId) {
+      this.loginIds.delete(login);
+      this.loginIds.set(login, message.userId);
+    }
+
+    // Re-inserted so the oldest users are dropped first
+    this.badgeRoles.delete(key);
+    this.badgeRoles.set(key, {
+      isBroadcaster: !!message.isBroadcaster,
+      isMod: !!message.isMod,
+      isVip: !!message.isVip,
+      isSubscriber: !!message.isSubscriber
+    });
+
+    if (this.badgeRoles.size > MAX_CACHED_USERS) {
+      this.badgeRoles.delete(this.badgeRoles.keys().next().value!);
+    }
+    if (this.loginIds.size > MAX_CACHED_USERS) {
+      this.loginIds.delete(this.loginIds.keys().next().value!);
+    }
+  }
+
+  setModerators(members: RoleListMember[]): void {
+    this.moderators = toRoleList(members);
+    this.listsUpdatedAt = new Date();
+  }
+
+  setVips(members: RoleListMember[]): void {
+    this.vips = toRoleList(members);
+    this.listsUpdatedAt = new Date();
+  }
+
+  /**
+   * What is known about a user's roles. The role lists fill in moderator and VIP status for
+   * users without badges, and catch roles granted after their last message.
+   */
+  getRoles(target: ProtectionTarget): UserRoles {
+    const login = target.username?.toLowerCase();
+    const userId = target.userId || (login && this.loginIds.get(login));
+    const roles: UserRoles = { ...((userId && this.badgeRoles.get(userId)) || (login && this.badgeRoles.get(login))) };
+
+    const inList = (list: { ids: Set<string>; logins: Set<string> }) =>
+      (!!userId && list.ids.has(userId)) || (!!login && list.logins.has(login));
+    if (this.moderators) {
+      roles.isMod = !!roles.isMod || inList(this.moderators);
+    }
+    if (this.vips) {
+      roles.isVip = !!roles.isVip || inList(this.vips);
+    }
+
+    return roles;
+  }
+
+  getStatus(): UserRoleCacheStatus {
+    return {
+      usersSeen: this.badgeRoles.size,
+      moderators: this.moderators ? this.moderators.ids.size : null,
+      vips: this.vips ? this.vips.ids.size : null,
+      listsUpdatedAt: this.listsUpdatedAt
+    };
+  }
+}
+
+function toRoleList(members: RoleListMember[]): { ids: Set<string>; logins: Set<string> } {
+  return {
+    ids: new Set(members.map(m => m.id)),
+    logins: new Set(members.map(m => m.login.toLowerCase()))
+  };
+}
+
+/**
+ * Why a user must never be auto-moderated, or null if they can be.
+ * The broadcaster and allowlisted accounts are protected even when they haven't chatted yet.
+ * Fails closed: when a protected role can't be ruled out, the user is treated as protected,
+ * and a target with neither a login nor a user id (e.g. the author of an unknown message) is refused.
+ */
+export function getProtectionReason(
+  target: ProtectionTarget,
+  roles: UserRoles,
+  config: ProtectedUsersConfig,
+  broadcaster: { login: string; id: string }
+): string | null {
+  const login = target.username?.toLowerCase();
+  if (!login && !target.userId) {
+    return 'author unknown';
+  }
+
+  if (login === broadcaster.login.toLowerCase() || target.userId === broadcaster.id || roles.isBroadcaster) {
+    return 'broadcaster';
+  }
+
+  if (login && config.allowlist.some(name => name.toLowerCase() === login)) {
+    return 'allowlisted';
+  }
+
+  if (config.moderators && roles.isMod !== false) {
+    return roles.isMod ? 'moderator' : 'moderator status unknown';
+  }
+
+  if (config.vips && roles.isVip !== false) {
+    return roles.isVip ? 'VIP' : 'VIP status unknown';
+  }
+
+  if (config.subscribers && roles.isSubscriber !== false) {
+    return roles.isSubscriber ? 'subscriber' : 'subscriber status unknown';
+  }
+
+  return null;
+}
@@ -0,0 +1,231 @@
+import { ChatMessage, ChatPattern } from './autonomous-types';
+import { StreamEvent, RaidEvent } from './stream-events';
+
+export interface WaveDetectionConfig {
+  windowSeconds: number;
+  minChatters: number;
+  similarityThreshold: number;
+  maxAccountAgeDays: number;
+}
+
+// Account creation dates by user id; ids Twitch doesn't know are left out
+export interface AccountAgeLookup {
+  (userIds: string[]): Promise<Map<string, Date>>;
+}
+
+export const DEFAULT_WAVE_DETECTION: WaveDetectionConfig = {
+  windowSeconds: 30,
+  minChatters: 8,
+  similarityThreshold: 0.6,
+  maxAccountAgeDays: 7
+};
+
+const FIRST_SEEN_RETENTION_MS = 6 * 60 * 60 * 1000;
+const WAVE_SCORE_THRESHOLD = 0.5;
+
+interface WaveChatter {
+  username: string;
+  userId?: string;
+  message: ChatMessage; // latest message in the window
+  firstMessage: boolean;
+}
+
+/**
+ * Detects raids and bot waves: a burst of new chatters, many of them first-time chatters on
+ * young accounts, posting near-identical text. Scoring messages one by one reacts too late.
+ */
+export class WaveDetector {
+  private config: WaveDetectionConfig;
+  private accountAgeLookup?: AccountAgeLookup;
+  private firstSeen: Map<string, number> = new Map(); // login -> first message time
+  private windowMessages: ChatMessage[] = [];
+  private reportedUsers: Set<string> = new Set(); // wave chatters already in an emitted pattern
+  private trackingSince: number | null = null;
+
+  constructor(config: WaveDetectionConfig = DEFAULT_WAVE_DETECTION, accountAgeLookup?: AccountAgeLookup) {
+    this.config = config;
+    this.accountAgeLookup = accountAgeLookup;
+  }
+
+  updateConfig(config: WaveDetectionConfig): void {
+    this.config = config;
+  }
+
+  /**
+   * Track new messages and return a raid pattern for wave chatters not reported before, or null
+   */
+  async detect(messages: ChatMessage[], streamEvents: StreamEvent[] = []): Promise<ChatPattern | null> {
+    const now = Date.now();
+    const windowStart = now - this.config.windowSeconds * 1000;
+    this.trackingSince ??= now;
+
+    for (const message of messages) {
+      const key = message.username.toLowerCase();
+      if (!this.firstSeen.has(key)) {
+        this.firstSeen.set(key, message.timestamp.getTime());
+      }
+    }
+    for (const [key, time] of this.firstSeen) {
+      if (time < now - FIRST_SEEN_RETENTION_MS) {
+        this.firstSeen.delete(key);
+      }
+    }
+    this.windowMessages = [...this.windowMessages, ...messages].filter(m => m.timestamp.getTime() >= windowStart);
+
+    const chatters = this.newChatters(windowStart);
+    if (chatters.length < this.config.minChatters) {
+      this.reportedUsers.clear(); // the wave is over
+      return null;
+    }
+
+    const cluster = this.largestSimilarCluster(chatters);
+    const similarRatio = cluster.length / chatters.length;
+    const firstTimeRatio = chatters.filter(c => c.firstMessage).length / chatters.length;
+    const burst = Math.min(1, chatters.length / (this.config.minChatters * 2));
+    const youngAccounts = await this.findYoungAccounts(chatters, now);
+    const youngRatio = youngAccounts ? youngAccounts.ids.size / youngAccounts.checked : undefined;
+
+    const score = youngRatio === undefined
+      ? 0.45 * similarRatio + 0.35 * firstTimeRatio + 0.2 * burst
+      : 0.35 * similarRatio + 0.25 * firstTimeRatio + 0.25 * youngRatio + 0.15 * burst;
+
+    // A real raid brings a burst of similar first-time messages too, but from established accounts
+    const raid = streamEvents.find((e): e is RaidEvent => e.type === 'raid' && e.timestamp.getTime() >= windowStart - 60000);
+    if (score < WAVE_SCORE_THRESHOLD || (raid && youngRatio !== undefined && youngRatio < 0.3)) {
+      return null;
+    }
+
+    const clusterUsers = new Set(cluster.map(c => c.username.toLowerCase()));
+    let targets = chatters.filter(c => clusterUsers.has(c.username.toLowerCase()) || (c.userId && youngAccounts?.ids.has(c.userId)));
+    if (targets.length === 0) {
+      targets = chatters.filter(c => c.firstMessage);
+    }
+
+    const unreported = targets.filter(c => !this.reportedUsers.has(c.username.toLowerCase()));
+    if (unreported.length === 0) {
+      return null;
+    }
+    unreported.forEach(c => this.reportedUsers.add(c.username.toLowerCase()));
+
+    const signals = [
+      `${chatters.length} new chatters in ${this.config.windowSeconds}s`,
+      `${Math.round(similarRatio * 100)}% posting similar text`,
+      `${Math.round(firstTimeRatio * 100)}% first-time chatters`,
+      ...(youngRatio !== undefined ? [`${Math.round(youngRatio * 100)}% accounts younger than ${this.config.maxAccountAgeDays} days`] : []),
+      ...(raid ? [`during a raid from ${raid.from.login}`] : [])
+    ];
+
+    return {
+      type: 'raid',
+      severity: Math.min(10, Math.round(6 + score * 4)),
+      confidence: Math.min(0.95, score + 0.2),
+      users: unreported.map(c => c.username),
+      userIds: unreported.filter(c => c.userId).map(c => c.userId!),
+      messages: unreported.map(c => c.message.content),
+      messageIds: unreported.filter(c => c.message.id).map(c => c.message.id!),
+      sourceMessages: unreported.map(c => c.message),
+      timestamp: new Date(),
+      metadata: {
+        reason: `Possible ${raid ? 'hate raid' : 'bot wave'}: ${signals.join(', ')}`,
+        waveSize: chatters.length,
+        similarRatio,
+        firstTimeRatio,
+        ...(youngRatio !== undefined ? { youngRatio } : {}),
+        ...(raid ? { raidFrom: raid.from.login } : {})
+      }
+    };
+  }
+
+  /**
+   * Chatters in the window who were first seen in it or are chatting for the first time.
+   * Badge holders (broadcaster, mods, VIPs, subscribers) are never part of a wave.
+   */
+  private newChatters(windowStart: number): WaveChatter[] {
+    const chatters = new Map<string, WaveChatter>();
+    // Right after startup everyone is "first seen", so only Twitch's first-message flag counts
+    const joinsCountFrom = Math.max(windowStart, (this.trackingSince ?? 0) + this.config.windowSeconds * 1000);
+
+    for (const message of this.windowMessages) {
+      if (message.isBroadcaster || message.isMod || message.isVip || message.isSubscriber) continue;
+
+      const key = message.username.toLowerCase();
+      const seenAt = this.firstSeen.get(key) ?? message.timestamp.getTime();
+      const existing = chatters.get(key);
+      if (!existing && seenAt < joinsCountFrom && !message.firstMessage) continue;
+
+      chatters.set(key, {
+        username: message.username,
+        userId: message.userId || existing?.userId,
+        message,
+        firstMessage: !!message.firstMessage || !!existing?.firstMessage
+      });
+    }
+
+    return Array.from(chatters.values());
+  }
+
+  /**
+   * Largest group of chatters whose latest messages are near-identical
+   */
+  private largestSimilarCluster(chatters: WaveChatter[]): WaveChatter[] {
+    const shingles = chatters.map(c => trigrams(c.message.content));
+    const clusters: number[][] = [];
+
+    shingles.forEach((set, index) => {
+      const cluster = clusters.find(members => jaccard(shingles[members[0]], set) >= this.config.similarityThreshold);
+      if (cluster) {
+        cluster.push(index);
+      } else {
+        clusters.push([index]);
+      }
+    });
+
+    const largest = clusters.reduce((best, c) => c.length > best.length ? c : best, [] as number[]);
+    return largest.length > 1 ? largest.map(i => chatters[i]) : [];
+  }
+
+  private async findYoungAccounts(
+    chatters: WaveChatter[],
+    now: number
+  ): Promise<{ ids: Set<string>; checked: number } | undefined> {
+    const userIds = chatters.map(c => c.userId).filter((id): id is string => !!id);
+    if (!this.accountAgeLookup || userIds.length === 0) {
+      return undefined;
+    }
+
+    try {
+      const created = await this.accountAgeLookup(userIds);
+      if (created.size === 0) {
+        return undefined;
+      }
+      const cutoff = now - this.config.maxAccountAgeDays * 24 * 60 * 60 * 1000;
+      const ids = new Set(Array.from(created).filter(([, date]) => date.getTime() >= cutoff).map(([id]) => id));
+      return { ids, checked: created.size };
+    } catch (error) {
+      console.error('Account age lookup failed:', error);
+      return undefined;
+    }
+  }
+}
+
+function trigrams(text: string): Set<string> {
+  const normalized = text.toLowerCase().replace(/[^\p{L}\p{N}]+/gu, ' ').replace(/(.)\1{2,}/g, '$1$1').trim();
+  const grams = new Set<string>();
+  if (normalized.length < 3) {
+    grams.add(normalized);
+    return grams;
+  }
+  for (let i = 0; i <= normalized.length - 3; i++) {
+    grams.add(normalized.substring(i, i + 3));
+  }
+  return grams;
+}
+
+function jaccard(a: Set<string>, b: Set<string>): number {
+  let shared = 0;
+  for (const gram of a) {
+    if (b.has(gram)) shared++;
+  }
+  const union = a.size + b.size - shared;
+  return union === 0 ? 0 : shared / union;
+}
@@ -0,0 +1,123 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import http from 'node:http';
+import { AddressInfo } from 'node:net';
+import { AIProviderConfig, OpenAICompatibleProvider } from '../src/ai-providers';
+import { AIPatternAnalyzer } from '../src/pattern-analyzer';
+
+type Handler = (request: http.IncomingMessage, body: string, response: http.ServerResponse) => void;
+
+// Stand-in for a chat-completions endpoint; every request goes to the handler
+async function withStubServer(handler: Handler, run: (baseUrl: string) => Promise<void>): Promise<void> {
+  const server = http.createServer((request, response) => {
+    let body = '';
+    request.on('data', chunk => { body += chunk; });
+    request.on('end', () => handler(request, body, response));
+  });
+  await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve));
+  const { port } = server.address() as AddressInfo;
+
+  try {
+    await run(`http://127.0.0.1:${port}/v1/`);
+  } finally {
+    server.closeAllConnections();
+    await new Promise(resolve => server.close(resolve));
+  }
+}
+
+function providerConfig(baseUrl: string, overrides: Partial<AIProviderConfig> = {}): AIProviderConfig {
+  return {
+    type: 'openai',
+    baseUrl,
+    model: 'test-model',
+    apiKey: 'test-key',
+    timeoutMs: 1000,
+    maxTokens: 256,
+    temperature: 0.2,
+    samplingBudgetPerCycle: 10,
+    ...overrides
+  };
+}
+
+test('returns the message content and reports token usage', async () => {
+  let seen: { url?: string; auth?: string; body?: any } = {};
+
+  await withStubServer((request, body, response) => {
+    seen = { url: request.url, auth: request.headers.authorization, body: JSON.parse(body) };
+    response.writeHead(200, { 'Content-Type': 'application/json' });
+    response.end(JSON.stringify({
+      choices: [{ message: { content: '{"ok":true}' } }],
+      usage: { prompt_tokens: 12, completion_tokens: 3 }
+    }));
+  }, async baseUrl => {
+    const usage: { promptTokens: number; completionTokens: number }[] = [];
+    const content = await new OpenAICompatibleProvider(providerConfig(baseUrl)).analyze('prompt text', {
+      promptType: 'toxicity',
+      reportUsage: reported => usage.push(reported)
+    });
+
+    assert.equal(content, '{"ok":true}');
+    assert.deepEqual(usage, [{ promptTokens: 12, completionTokens: 3 }]);
+  });
+
+  assert.equal(seen.url, '/v1/chat/completions');
+  assert.equal(seen.auth, 'Bearer test-key');
+  assert.equal(seen.body.model, 'test-model');
+  assert.equal(seen.body.stream, false);
+  assert.equal(seen.body.messages[1].content, 'prompt text');
+});
+
+test('rejects with the status and body of an HTTP error', async () => {
+  await withStubServer((_request, _body, response) => {
+    response.writeHead(503, { 'Content-Type': 'text/plain' });
+    response.end('model is loading');
+  }, async baseUrl => {
+    await assert.rejects(
+      new OpenAICompatibleProvider(providerConfig(baseUrl)).analyze('prompt', { promptType: 'toxicity' }),
+      /HTTP 503: model is loading/
+    );
+  });
+});
+
+test('aborts and rejects when the endpoint does not answer in time', async () => {
+  await withStubServer(() => {
+    // never respond
+  }, async baseUrl => {
+    const startedAt = Date.now();
+    await assert.rejects(
+      new OpenAICompatibleProvider(providerConfig(baseUrl, { timeoutMs: 100 })).analyze('prompt', { promptType: 'toxicity' }),
+      /timed out after 100ms/
+    );
+    assert.ok(Date.now() - startedAt < 1000);
+  });
+});
+
+test('rejects a response without a message', async () => {
+  await withStubServer((_request, _body, response) => {
+    response.writeHead(200, { 'Content-Type': 'application/json' });
+    response.end(JSON.stringify({ choices: [] }));
+  }, async baseUrl => {
+    await assert.rejects(
+      new OpenAICompatibleProvider(providerConfig(baseUrl)).analyze('prompt', { promptType: 'toxicity' }),
+      /did not contain a message/
+    );
+  });
+});
+
+test('malformed JSON from the endpoint falls back to basic analysis', async () => {
+  await withStubServer((_request, _body, response) => {
+    response.writeHead(200, { 'Content-Type': 'application/json' });
+    response.end('{"choices": [');
+  }, async baseUrl => {
+    const provider = new OpenAICompatibleProvider(providerConfig(baseUrl));
+    await assert.rejects(provider.analyze('prompt', { promptType: 'toxicity' }), SyntaxError);
+
+    const analyzer = new AIPatternAnalyzer(provider.analyze, 'batched');
+    const result = await analyzer.analyzeChat([
+      { username: 'viewer', content: 'hello chat', timestamp: new Date() }
+    ]);
+
+    assert.deepEqual(result.patterns, []);
+    assert.deepEqual(result.recommendations, ['AI analysis unavailable - manual review recommended']);
+  });
+});
@@ -0,0 +1,223 @@
+import { test, mock } from 'node:test';
+import assert from 'node:assert/strict';
+import { AddressInfo } from 'node:net';
+import WebSocket, { WebSocketServer } from 'ws';
+import { EventSubClient } from '../src/eventsub-client';
+import { HelixEventSubSubscriptionRequest } from '../src/helix-client';
+import { StreamEvent } from '../src/stream-events';
+
+/**
+ * Local stand-in for the EventSub WebSocket endpoint; replays whatever messages a test sends
+ */
+class FakeEventSub {
+  readonly server: WebSocketServer;
+  readonly connections: WebSocket[] = [];
+  private messageCount = 0;
+
+  private constructor(server: WebSocketServer) {
+    this.server = server;
+    server.on('connection', socket => this.connections.push(socket));
+  }
+
+  static async start(): Promise<FakeEventSub> {
+    const server = new WebSocketServer({ port: 0, host: '127.0.0.1' });
+    await new Promise(resolve => server.once('listening', resolve));
+    return new FakeEventSub(server);
+  }
+
+  get url(): string {
+    return `ws://127.0.0.1:${(this.server.address() as AddressInfo).port}/ws`;
+  }
+
+  async connection(index: number): Promise<WebSocket> {
+    await waitFor(() => this.connections.length > index);
+    return this.connections[index];
+  }
+
+  send(socket: WebSocket, messageType: string, payload: Record<string, any>, metadata: Record<string, any> = {}): void {
+    socket.send(JSON.stringify({
+      metadata: {
+        message_id: `message-${++this.messageCount}`,
+        message_type: messageType,
+        message_timestamp: new Date().toISOString(),
+        ...metadata
+      },
+      payload
+    }));
+  }
+
+  welcome(socket: WebSocket, sessionId: string, keepaliveSeconds = 10): void {
+    this.send(socket, 'session_welcome', {
+      session: { id: sessionId, status: 'connected', keepalive_timeout_seconds: keepaliveSeconds, reconnect_url: null }
+    });
+  }
+
+  dropConnections(): void {
+    for (const socket of this.connections) {
+      socket.terminate();
+    }
+  }
+
+  async close(): Promise<void> {
+    await new Promise(resolve => this.server.close(resolve));
+  }
+}
+
+// Polls on setImmediate, so it keeps working while setTimeout is mocked
+async function waitFor(condition: () => boolean, timeoutMs = 2000): Promise<void> {
+  const deadline = Date.now() + timeoutMs;
+  while (!condition()) {
+    if (Date.now() > deadline) {
+      throw new Error('Timed out waiting for condition');
+    }
+    await new Promise(resolve => setImmediate(resolve));
+  }
+}
+
+function allEnabled(client: EventSubClient): boolean {
+  const subscriptions = client.getStatus().subscriptions;
+  return subscriptions.length > 0 && subscriptions.every(s => s.status === 'enabled');
+}
+
+function raidNotification(fake: FakeEventSub, socket: WebSocket, messageId?: string): void {
+  fake.send(socket, 'notification', {
+    subscription: { type: 'channel.raid', version: '1' },
+    event: {
+      from_broadcaster_user_id: '42',
+      from_broadcaster_user_login: 'raider',
+      from_broadcaster_user_name: 'Raider',
+      viewers: 150
+    }
+  }, messageId ? { message_id: messageId, subscription_type: 'channel.raid' } : { subscription_type: 'channel.raid' });
+}
+
+async function withClient(
+  run: (fake: FakeEventSub, client: EventSubClient, subscriptions: HelixEventSubSubscriptionRequest[], events: StreamEvent[]) => Promise<void>
+): Promise<void> {
+  const fake = await FakeEventSub.start();
+  const subscriptions: HelixEventSubSubscriptionRequest[] = [];
+  const events: StreamEvent[] = [];
+  const client = new EventSubClient(
+    { url: fake.url, broadcasterId: '1000', events: ['raid', 'follow'] },
+    async subscription => { subscriptions.push(subscription); },
+    event => events.push(event)
+  );
+
+  try {
+    client.start();
+    await run(fake, client, subscriptions, events);
+  } finally {
+    // Drop the connection first, so stopping doesn't leave a close handshake timer running
+    fake.dropConnections();
+    await waitFor(() => !client.getStatus().connected);
+    client.stop();
+    await fake.close();
+  }
+}
+
+test('subscribes to the configured events once the session is welcomed', async () => {
+  await withClient(async (fake, client, subscriptions) => {
+    fake.welcome(await fake.connection(0), 'session-1');
+    await waitFor(() => allEnabled(client));
+
+    assert.deepEqual(subscriptions, [
+      {
+        type: 'channel.raid',
+        version: '1',
+        condition: { to_broadcaster_user_id: '1000' },
+        transport: { method: 'websocket', session_id: 'session-1' }
+      },
+      {
+        type: 'channel.follow',
+        version: '2',
+        condition: { broadcaster_user_id: '1000', moderator_user_id: '1000' },
+        transport: { method: 'websocket', session_id: 'session-1' }
+      }
+    ]);
+    assert.equal(client.getStatus().connected, true);
+    assert.equal(client.getStatus().sessionId, 'session-1');
+  });
+});
+
+test('reconnects with a new session when keepalives stop', async () => {
+  mock.timers.enable({ apis: ['setTimeout'] });
+  try {
+    await withClient(async (fake, client, subscriptions) => {
+      fake.welcome(await fake.connection(0), 'session-1');
+      await waitFor(() => subscriptions.length === 2);
+
+      // keepalive timeout plus the grace period, without any message
+      mock.timers.tick(15000);
+      await waitFor(() => !client.getStatus().connected);
+
+      mock.timers.tick(1000); // first reconnect backoff
+      fake.welcome(await fake.connection(1), 'session-2');
+      await waitFor(() => subscriptions.length === 4);
+
+      assert.equal(subscriptions[2].transport.session_id, 'session-2');
+      assert.equal(client.getStatus().sessionId, 'session-2');
+      assert.equal(client.getStatus().reconnects, 1);
+    });
+  } finally {
+    mock.timers.reset();
+  }
+});
+
+test('moves the session to the reconnect URL without resubscribing', async () => {
+  await withClient(async (fake, client, subscriptions, events) => {
+    const original = await fake.connection(0);
+    fake.welcome(original, 'session-1');
+    await waitFor(() => subscriptions.length === 2);
+
+    const originalClosed = new Promise(resolve => original.once('close', resolve));
+    fake.send(original, 'session_reconnect', {
+      session: { id: 'session-1', status: 'reconnecting', keepalive_timeout_seconds: null, reconnect_url: `${fake.url}?reconnect` }
+    });
+    const migrated = await fake.connection(1);
+    fake.welcome(migrated, 'session-1');
+    await originalClosed;
+
+    raidNotification(fake, migrated);
+    await waitFor(() => events.length === 1);
+
+    assert.equal(subscriptions.length, 2);
+    assert.equal(client.getStatus().sessionId, 'session-1');
+    assert.equal(client.getStatus().reconnects, 1);
+    assert.equal(events[0].type, 'raid');
+  });
+});
+
+test('passes on a notification delivered twice only once', async () => {
+  await withClient(async (fake, client, subscriptions, events) => {
+    const socket = await fake.connection(0);
+    fake.welcome(socket, 'session-1');
+    await waitFor(() => subscriptions.length === 2);
+
+    raidNotification(fake, socket, 'duplicate-id');
+    raidNotification(fake, socket, 'duplicate-id');
+    raidNotification(fake, socket);
+    await waitFor(() => client.getStatus().eventsReceived === 2);
+
+    assert.equal(events.length, 2);
+    assert.equal(events[0].id, 'duplicate-id');
+  });
+});
+
+test('marks a revoked subscription', async () => {
+  await withClient(async (fake, client, subscriptions) => {
+    const socket = await fake.connection(0);
+    fake.welcome(socket, 'session-1');
+    await waitFor(() => allEnabled(client));
+
+    fake.send(socket, 'revocation', {
+      subscription: { type: 'channel.follow', version: '2', status: 'authorization_revoked' }
+    });
+    await waitFor(() => client.getStatus().subscriptions.some(s => s.status === 'revoked'));
+
+    assert.deepEqual(client.getStatus().subscriptions, [
+      { event: 'raid', status: 'enabled' },
+      { event: 'follow', status: 'revoked', error: 'authorization_revoked' }
+    ]);
+    assert.equal(subscriptions.length, 2);
+  });
+});